@@ -18,6 +18,15 @@ export const errorHandler = (
     });
   }
   
+  // Tax years without published brackets
+  if (error instanceof RangeError) {
+    return res.status(400).json({
+      success: false,
+      error: error.message,
+      code: 'INVALID_YEAR'
+    });
+  }
+  
   // Handle unexpected errors
   return res.status(500).json({
     success: false,
@@ -4,14 +4,17 @@ const {
   getFederalTaxAmount,
   getProvincialTaxAmount,
   getRate,
-  TAX_BRACKETS,
-  getTaxRates
+  getTaxRates,
+  getTaxBracketsByYear,
+  getIndexedAmount
 } = require('../../../../dist/taxes/income-tax.js');
 
+const { getIncomeTypeTax } = require('../../../../dist/taxes/income-types.js');
 const { getCapitalGainsTaxableAmount } = require('../../../../dist/investments/non-registered-savings-plan.js');
 const { CPP } = require('../../../../dist/pension/canada-pension-plan.js');
 const { QPP } = require('../../../../dist/pension/quebec-pension-plan.js');
-const { EI } = require('../../../../dist/taxes/employment-insurance.js');
+const { getPlanPayrollParameters } = require('../../../../dist/pension/public-pension-plan.js');
+const { getEiPremiumRate, getEiPremiums, getEmploymentInsurance } = require('../../../../dist/taxes/employment-insurance.js');
 const { ELIGIBLE_DIVIDEND, NON_ELIGIBLE_DIVIDEND } = require('../../../../dist/taxes/dividend-credit.js');
 const { roundToPrecision } = require('../../../../dist/utils/math.js');
 
@@ -36,20 +39,20 @@ import {
 export class TaxCalculationService {
   
   calculateIncomeTax(request: IncomeTaxRequest): IncomeTaxResponse {
-    const { grossIncome, province, inflationRate = 0, yearsToInflate = 0 } = request;
+    const { grossIncome, province, year, inflationRate = 0, yearsToInflate = 0 } = request;
     
-    const federalTax = getFederalTaxAmount(province, grossIncome, inflationRate, yearsToInflate);
-    const provincialTax = getProvincialTaxAmount(province, grossIncome, inflationRate, yearsToInflate);
-    const totalTax = getTotalTaxAmount(province, grossIncome, inflationRate, yearsToInflate);
+    const federalTax = getFederalTaxAmount(province, grossIncome, inflationRate, yearsToInflate, 0, year);
+    const provincialTax = getProvincialTaxAmount(province, grossIncome, inflationRate, yearsToInflate, 0, year);
+    const totalTax = getTotalTaxAmount(province, grossIncome, inflationRate, yearsToInflate, year);
     
     const afterTaxIncome = grossIncome - totalTax;
     const effectiveTaxRate = grossIncome > 0 ? totalTax / grossIncome : 0;
     
     // Calculate marginal tax rate
-    const federalRates = getTaxRates('CA');
-    const provincialRates = getTaxRates(province);
-    const federalMarginalRate = getRate(federalRates, grossIncome, inflationRate, yearsToInflate);
-    const provincialMarginalRate = getRate(provincialRates, grossIncome, inflationRate, yearsToInflate);
+    const federalRates = getTaxRates('CA', year);
+    const provincialRates = getTaxRates(province, year);
+    const federalMarginalRate = getRate(federalRates, grossIncome, inflationRate, yearsToInflate, 'CA', year);
+    const provincialMarginalRate = getRate(provincialRates, grossIncome, inflationRate, yearsToInflate, province, year);
     const marginalTaxRate = federalMarginalRate + provincialMarginalRate;
     
     return {
@@ -67,14 +70,11 @@ export class TaxCalculationService {
   calculateCPPContribution(request: CPPContributionRequest): CPPContributionResponse {
     const { income, year = new Date().getFullYear() } = request;
     
-    const pensionableEarnings = Math.max(0, Math.min(income, CPP.PENSIONABLE_EARNINGS.YMPE) - CPP.PENSIONABLE_EARNINGS.BASIC_EXEMPTION);
-    const baseContribution = pensionableEarnings * CPP.CONTRIBUTION_RATES.BASE;
-    
-    // Enhanced CPP contribution for income above YMPE
-    const enhancedPensionableEarnings = Math.max(0, Math.min(income, CPP.PENSIONABLE_EARNINGS.YAMPE) - CPP.PENSIONABLE_EARNINGS.YMPE);
-    const enhancementContribution = enhancedPensionableEarnings * CPP.CONTRIBUTION_RATES.ENHANCEMENT_STEP_2;
-    
-    const totalContribution = baseContribution + enhancementContribution;
+    const contributions = CPP.getContributions(income, undefined, year);
+    const pensionableEarnings = contributions.pensionableEarnings;
+    const baseContribution = contributions.base + contributions.firstEnhancement;
+    const enhancementContribution = contributions.secondEnhancement;
+    const totalContribution = contributions.employee;
     
     return {
       income: roundToPrecision(income, 2),
@@ -89,39 +89,33 @@ export class TaxCalculationService {
   calculateEIContribution(request: EIContributionRequest): EIContributionResponse {
     const { income, province, year = new Date().getFullYear() } = request;
     
-    const insurableEarnings = Math.min(income, EI.MAX_INSURABLE_EARNINGS);
-    const premiumRate = province === 'QC' ? EI.PREMIUM_RATES.QC : EI.PREMIUM_RATES.CA;
-    const contribution = insurableEarnings * premiumRate;
+    const premiumRate = getEiPremiumRate(province, year);
+    const { insurableEarnings, employee, employer } = getEiPremiums(province, income, year);
     
     return {
       income: roundToPrecision(income, 2),
       province,
       insurableEarnings: roundToPrecision(insurableEarnings, 2),
       premiumRate: roundToPrecision(premiumRate, 6),
-      contribution: roundToPrecision(contribution, 2),
+      contribution: roundToPrecision(employee, 2),
+      employerContribution: roundToPrecision(employer, 2),
       year
     };
   }
   
   calculateDividendTax(request: DividendTaxRequest): DividendTaxResponse {
-    const { dividendAmount, isEligible, province } = request;
+    const { dividendAmount, isEligible, province, year } = request;
     
     const dividendRates = isEligible ? ELIGIBLE_DIVIDEND : NON_ELIGIBLE_DIVIDEND;
     const grossedUpDividend = dividendAmount * dividendRates.GROSS_UP;
     
-    // Calculate tax credit
-    const federalTaxCredit = grossedUpDividend * dividendRates.CA;
-    const provincialTaxCredit = grossedUpDividend * dividendRates[province];
-    const totalTaxCredit = federalTaxCredit + provincialTaxCredit;
-    
-    // For simplification, we'll use the lowest tax rate to calculate tax on grossed-up amount
-    // In reality, this would depend on the individual's total income and tax bracket
-    const federalRate = TAX_BRACKETS.CA.RATES[0].RATE;
-    const provincialRate = TAX_BRACKETS[province].RATES[0].RATE;
-    const combinedRate = federalRate + provincialRate;
+    // Run the grossed-up dividend through the real brackets, then apply the dividend tax credits
+    const income = isEligible ? { eligibleDividends: dividendAmount } : { nonEligibleDividends: dividendAmount };
+    const result = getIncomeTypeTax(province, income, 0, 0, year);
+    const totalTaxCredit = result.federalDividendTaxCredit + result.provincialDividendTaxCredit;
+    const taxOnGrossedUp = getTotalTaxAmount(province, grossedUpDividend, 0, 0, year);
     
-    const taxOnGrossedUp = grossedUpDividend * combinedRate;
-    const netTax = Math.max(0, taxOnGrossedUp - totalTaxCredit);
+    const netTax = result.totalTax;
     const afterTaxDividend = dividendAmount - netTax;
     const effectiveTaxRate = dividendAmount > 0 ? netTax / dividendAmount : 0;
     
@@ -137,16 +131,10 @@ export class TaxCalculationService {
   }
   
   calculateCapitalGains(request: CapitalGainsRequest): CapitalGainsResponse {
-    const { capitalGains, province } = request;
+    const { capitalGains, province, year } = request;
     
     const taxableCapitalGains = getCapitalGainsTaxableAmount(capitalGains);
-    
-    // Calculate tax on taxable capital gains using lowest tax bracket
-    const federalRate = TAX_BRACKETS.CA.RATES[0].RATE;
-    const provincialRate = TAX_BRACKETS[province].RATES[0].RATE;
-    const combinedRate = federalRate + provincialRate;
-    
-    const taxOnCapitalGains = taxableCapitalGains * combinedRate;
+    const taxOnCapitalGains = getIncomeTypeTax(province, { capitalGains }, 0, 0, year).totalTax;
     const afterTaxGains = capitalGains - taxOnCapitalGains;
     const effectiveTaxRate = capitalGains > 0 ? taxOnCapitalGains / capitalGains : 0;
     
@@ -163,28 +151,31 @@ export class TaxCalculationService {
 export class DataService {
   
   getTaxBrackets(year: number, province: ProvinceCode): TaxBracketsResponse {
-    const federalBracket = TAX_BRACKETS.CA;
-    const provincialBracket = TAX_BRACKETS[province];
+    const taxBrackets = getTaxBracketsByYear(year);
+    const federalBracket = taxBrackets.CA;
+    const provincialBracket = taxBrackets[province];
+    // Years after the latest published year are indexed from it
+    const index = (code: string, amount: number) => getIndexedAmount(code, amount, 0, 0, year);
     
     return {
       year,
       province,
       federal: {
         rates: federalBracket.RATES.map((rate: any) => ({
-          from: rate.FROM,
-          to: rate.TO,
+          from: index('CA', rate.FROM),
+          to: index('CA', rate.TO),
           rate: rate.RATE
         })),
-        baseTaxCredit: federalBracket.BASE_TAX_CREDIT,
+        baseTaxCredit: index('CA', federalBracket.BASE_TAX_CREDIT),
         taxCreditRate: federalBracket.TAX_CREDIT_RATE
       },
       provincial: {
         rates: provincialBracket.RATES.map((rate: any) => ({
-          from: rate.FROM,
-          to: rate.TO,
+          from: index(province, rate.FROM),
+          to: index(province, rate.TO),
           rate: rate.RATE
         })),
-        baseTaxCredit: provincialBracket.BASE_TAX_CREDIT,
+        baseTaxCredit: index(province, provincialBracket.BASE_TAX_CREDIT),
         taxCreditRate: provincialBracket.TAX_CREDIT_RATE,
         abatement: provincialBracket.ABATEMENT
       }
@@ -192,27 +183,31 @@ export class DataService {
   }
   
   getPensionLimits(year: number): PensionLimitsResponse {
+    const cpp = getPlanPayrollParameters(CPP, year);
+    const qpp = getPlanPayrollParameters(QPP, year);
+    const ei = getEmploymentInsurance(year);
+
     return {
       year,
       cpp: {
-        basicExemption: CPP.PENSIONABLE_EARNINGS.BASIC_EXEMPTION,
-        ympe: CPP.PENSIONABLE_EARNINGS.YMPE,
-        yampe: CPP.PENSIONABLE_EARNINGS.YAMPE,
-        baseRate: CPP.CONTRIBUTION_RATES.BASE,
-        enhancementRate: CPP.CONTRIBUTION_RATES.ENHANCEMENT_STEP_2
+        basicExemption: cpp.BASIC_EXEMPTION,
+        ympe: cpp.YMPE,
+        yampe: cpp.YAMPE,
+        baseRate: cpp.CONTRIBUTION_RATES.BASE,
+        enhancementRate: cpp.CONTRIBUTION_RATES.ENHANCEMENT_STEP_2
       },
       qpp: {
-        basicExemption: QPP.PENSIONABLE_EARNINGS.BASIC_EXEMPTION,
-        ympe: QPP.PENSIONABLE_EARNINGS.YMPE,
-        yampe: QPP.PENSIONABLE_EARNINGS.YAMPE,
-        baseRate: QPP.CONTRIBUTION_RATES.BASE,
-        enhancementRate: QPP.CONTRIBUTION_RATES.ENHANCEMENT_STEP_2
+        basicExemption: qpp.BASIC_EXEMPTION,
+        ympe: qpp.YMPE,
+        yampe: qpp.YAMPE,
+        baseRate: qpp.CONTRIBUTION_RATES.BASE,
+        enhancementRate: qpp.CONTRIBUTION_RATES.ENHANCEMENT_STEP_2
       },
       ei: {
-        maxInsurableEarnings: EI.MAX_INSURABLE_EARNINGS,
+        maxInsurableEarnings: ei.MAX_INSURABLE_EARNINGS,
         premiumRates: {
-          ca: EI.PREMIUM_RATES.CA,
-          qc: EI.PREMIUM_RATES.QC
+          ca: ei.PREMIUM_RATES.CA,
+          qc: ei.PREMIUM_RATES.QC
         }
       }
     };
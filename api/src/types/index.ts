@@ -62,6 +62,7 @@ export interface EIContributionResponse {
   insurableEarnings: number;
   premiumRate: number;
   contribution: number;
+  employerContribution: number;
   year: number;
 }
 
@@ -5,12 +5,17 @@ Sources
     https://www.canada.ca/en/services/benefits/publicpensions/cpp/old-age-security/cpp-price.html
 
 Revised
-    2025-01-02
+    2026-10-19
 */
 
 import { addYearsToDate, getMonthsDiff, now } from '../utils/date';
 import { clamp, roundToPrecision } from '../utils/math';
-import { PublicPensionPlan } from './public-pension-plan';
+import {
+    Contributions,
+    getPlanContributions,
+    getPlanContributoryMonths,
+    PublicPensionPlan,
+} from './public-pension-plan';
 
 export const CPP: PublicPensionPlan = {
     PENSIONABLE_EARNINGS: {
@@ -27,10 +32,23 @@ export const CPP: PublicPensionPlan = {
     },
     CONTRIBUTION_RATES: {
         BASE: 0.0595,
+        ENHANCEMENT_STEP_1: 0.01,
         ENHANCEMENT_STEP_2: 0.04,
     },
+    CONTRIBUTION_AGES: {
+        MIN: 18,
+        MAX: 70,
+    },
     DEATH_BENEFIT: { RATE: 0.5 },
     DEFAULT_REFERENCE_AGE: 65,
+    DISABILITY: {
+        CONVERSION_REDUCTION: false,
+    },
+    DROP_OUT: {
+        GENERAL_RATE: 0.17,
+        // 120 months
+        MIN_YEARS: 10,
+    },
     FLAT_BENEFIT: {
         // Survivors' benefits
         ORPHAN: 3621.24,
@@ -42,6 +60,8 @@ export const CPP: PublicPensionPlan = {
         UNDER_45_DISABLED: 9250.56,
         FROM_45_TO_64: 9250.56,
         OVER_64_WITHOUT_PENSION: 10317.60,
+        // Post-retirement disability benefit
+        POST_RETIREMENT_DISABILITY: 7394.28,
     },
 
     INDEXATION_RATE_REFERENCES: [ // Previous year inflation used as indexation
@@ -126,6 +146,10 @@ export const CPP: PublicPensionPlan = {
         2024: 68500,
         2025: 71300,
     },
+    MAX_ADDITIONAL_INCOME: {
+        2024: 73200,
+        2025: 81200,
+    },
     MAX_PENSION: {
         RETIREMENT: 17196, // Max amount at age 65
         COMBINED_RETIREMENT_SURVIVOR: 17394.36,
@@ -137,17 +161,78 @@ export const CPP: PublicPensionPlan = {
         BONUS: 0.0070,
         PENALTY: 0.0060,
     },
+    PAYROLL_BY_YEAR: {
+        2018: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.0495,
+                ENHANCEMENT_STEP_1: 0,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2019: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.051,
+                ENHANCEMENT_STEP_1: 0.0015,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2020: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.0525,
+                ENHANCEMENT_STEP_1: 0.003,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2021: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.0545,
+                ENHANCEMENT_STEP_1: 0.005,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2022: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.057,
+                ENHANCEMENT_STEP_1: 0.0075,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2023: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.0595,
+                ENHANCEMENT_STEP_1: 0.01,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2024: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.0595,
+                ENHANCEMENT_STEP_1: 0.01,
+                ENHANCEMENT_STEP_2: 0.04,
+            },
+        },
+    },
     REPLACEMENT_FACTOR: 0.25,
     SURVIVOR_RATES: {
         OVER_64: 0.6,
         UNDER_65: 0.375,
     },
     YEARS_TO_FULL_PENSION: 40,
+    getMaxRequestAge(): number {
+        return this.MAX_REQUEST_AGE;
+    },
     getRequestDateFactor(birthDate: Date, requestDate: Date, customReferenceDate?: Date): number {
         const { BONUS, PENALTY } = this.MONTHLY_DELAY;
 
         const minRequestDate = addYearsToDate(birthDate, this.MIN_REQUEST_AGE);
-        const maxRequestDate = addYearsToDate(birthDate, this.MAX_REQUEST_AGE);
+        const maxRequestDate = addYearsToDate(birthDate, this.getMaxRequestAge(birthDate));
         const referenceDate = customReferenceDate || addYearsToDate(birthDate, this.DEFAULT_REFERENCE_AGE);
 
         const monthsToToday = getMonthsDiff(birthDate, now());
@@ -179,4 +264,10 @@ export const CPP: PublicPensionPlan = {
         const sum = this.INDEXATION_RATE_REFERENCES.reduce((previous, current) => previous + current[1], 0);
         return roundToPrecision(sum / this.INDEXATION_RATE_REFERENCES.length, 3);
     },
+    getContributoryMonths(birthDate: Date, year: number, endDate?: Date): number {
+        return getPlanContributoryMonths(this, birthDate, year, endDate);
+    },
+    getContributions(earnings: number, contributoryMonths?: number, year?: number): Contributions {
+        return getPlanContributions(this, earnings, contributoryMonths, year);
+    },
 };
@@ -0,0 +1,181 @@
+/*
+Sources
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/old-age-security/payments.html
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/old-age-security/guaranteed-income-supplement.html
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/old-age-security/guaranteed-income-supplement/
+        allowance.html
+    https://www.canada.ca/en/employment-social-development/programs/old-age-security/reports/
+        quarterly-rates.html
+
+Notes
+    Amounts are the January to March 2025 payments, like the first 2025 quarter of OAS.QUARTERLY_PAYMENTS_MAX.
+    Income is the annual net income of the previous year without the OAS and GIS payments. For couples, it is the
+    combined income of both spouses.
+    The base portion is reduced by REDUCTION_RATE of the income and the top-up by TOP_UP_REDUCTION_RATE of the income
+    over TOP_UP_THRESHOLD. The OAS-equivalent portion of the Allowances is reduced first, at 75% of the income.
+    When the spouse does not receive OAS or receives the Allowance, INCOME_EXCLUSION is not counted.
+
+Revised
+    2026-10-19
+*/
+
+import { OAS } from './old-age-security';
+
+const EMPLOYMENT_EXEMPTION = 5000;
+const EMPLOYMENT_PARTIAL_EXEMPTION = 10000;
+const EMPLOYMENT_PARTIAL_EXEMPTION_RATE = 0.5;
+
+export type GisStatus = 'SINGLE' | 'SPOUSE_RECEIVING_OAS' | 'SPOUSE_NOT_RECEIVING_OAS' | 'SPOUSE_RECEIVING_ALLOWANCE';
+
+export interface IncomeTestedBenefit {
+    MONTHLY_PAYMENT_MAX: number;
+    // Monthly top-up included in MONTHLY_PAYMENT_MAX
+    TOP_UP: number;
+    TOP_UP_THRESHOLD: number;
+    TOP_UP_REDUCTION_RATE: number;
+    REDUCTION_RATE: number;
+    INCOME_EXCLUSION: number;
+}
+
+export interface Allowance extends IncomeTestedBenefit {
+    // Monthly OAS-equivalent portion included in MONTHLY_PAYMENT_MAX
+    OAS_EQUIVALENT: number;
+    OAS_EQUIVALENT_REDUCTION_RATE: number;
+    MAX_AGE: number;
+    MIN_AGE: number;
+}
+
+export interface GisIncome {
+    // Employment and self-employment income
+    employmentIncome?: number;
+    // Any other income, without the OAS and GIS payments
+    otherIncome?: number;
+}
+
+const SINGLE_TOP_UP = {
+    TOP_UP: 167.88,
+    TOP_UP_THRESHOLD: 2000,
+    TOP_UP_REDUCTION_RATE: 0.25,
+};
+
+const COUPLE_TOP_UP = {
+    TOP_UP: 47.23,
+    TOP_UP_THRESHOLD: 4000,
+    TOP_UP_REDUCTION_RATE: 0.125,
+};
+
+const ALLOWANCE_AGES = {
+    MAX_AGE: 64,
+    MIN_AGE: 60,
+};
+
+export const GIS: { [status in GisStatus]: IncomeTestedBenefit } = {
+    SINGLE: {
+        MONTHLY_PAYMENT_MAX: 1086.88,
+        ...SINGLE_TOP_UP,
+        REDUCTION_RATE: 0.5,
+        INCOME_EXCLUSION: 0,
+    },
+    SPOUSE_RECEIVING_OAS: {
+        MONTHLY_PAYMENT_MAX: 654.23,
+        ...COUPLE_TOP_UP,
+        REDUCTION_RATE: 0.25,
+        INCOME_EXCLUSION: 0,
+    },
+    SPOUSE_NOT_RECEIVING_OAS: {
+        MONTHLY_PAYMENT_MAX: 1086.88,
+        ...SINGLE_TOP_UP,
+        TOP_UP_THRESHOLD: 4000,
+        TOP_UP_REDUCTION_RATE: 0.125,
+        REDUCTION_RATE: 0.25,
+        INCOME_EXCLUSION: 8736,
+    },
+    SPOUSE_RECEIVING_ALLOWANCE: {
+        MONTHLY_PAYMENT_MAX: 654.23,
+        ...COUPLE_TOP_UP,
+        REDUCTION_RATE: 0.25,
+        INCOME_EXCLUSION: 11664,
+    },
+};
+
+export const ALLOWANCE: Allowance = {
+    MONTHLY_PAYMENT_MAX: 1381.90,
+    OAS_EQUIVALENT: 727.67,
+    OAS_EQUIVALENT_REDUCTION_RATE: 0.75,
+    ...COUPLE_TOP_UP,
+    REDUCTION_RATE: 0.25,
+    INCOME_EXCLUSION: 0,
+    ...ALLOWANCE_AGES,
+};
+
+export const ALLOWANCE_FOR_THE_SURVIVOR: Allowance = {
+    MONTHLY_PAYMENT_MAX: 1647.13,
+    OAS_EQUIVALENT: 727.67,
+    OAS_EQUIVALENT_REDUCTION_RATE: 0.75,
+    ...SINGLE_TOP_UP,
+    REDUCTION_RATE: 0.5,
+    INCOME_EXCLUSION: 0,
+    ...ALLOWANCE_AGES,
+};
+
+export function getGisEmploymentExemption(employmentIncome: number): number {
+    const partialExemption = Math.min(
+        Math.max(employmentIncome - EMPLOYMENT_EXEMPTION, 0),
+        EMPLOYMENT_PARTIAL_EXEMPTION,
+    );
+    return Math.min(Math.max(employmentIncome, 0), EMPLOYMENT_EXEMPTION)
+        + (partialExemption * EMPLOYMENT_PARTIAL_EXEMPTION_RATE);
+}
+
+export function getGisIncome(income: GisIncome): number {
+    const { employmentIncome = 0, otherIncome = 0 } = income;
+    return Math.max(employmentIncome - getGisEmploymentExemption(employmentIncome) + otherIncome, 0);
+}
+
+function getIncomeTestedAmount(
+    benefit: IncomeTestedBenefit,
+    income: number,
+    oasEquivalent = 0,
+    oasEquivalentReductionRate = 1,
+): number {
+    const countedIncome = Math.max(income - benefit.INCOME_EXCLUSION, 0);
+    const oasEquivalentReduction = Math.min(countedIncome * oasEquivalentReductionRate, oasEquivalent * 12);
+    const remainingIncome = countedIncome - (oasEquivalentReduction / oasEquivalentReductionRate);
+
+    const base = (benefit.MONTHLY_PAYMENT_MAX - benefit.TOP_UP - oasEquivalent) * 12;
+    const topUpReduction = Math.max(countedIncome - benefit.TOP_UP_THRESHOLD, 0) * benefit.TOP_UP_REDUCTION_RATE;
+
+    return (oasEquivalent * 12) - oasEquivalentReduction
+        + Math.max(base - (remainingIncome * benefit.REDUCTION_RATE), 0)
+        + Math.max((benefit.TOP_UP * 12) - topUpReduction, 0);
+}
+
+export function getGisBenefit(status: GisStatus, income: number): number {
+    return getIncomeTestedAmount(GIS[status], income);
+}
+
+function getAllowanceAmount(allowance: Allowance, age: number, income: number): number {
+    if (age < allowance.MIN_AGE || age > allowance.MAX_AGE) {
+        return 0;
+    }
+    return getIncomeTestedAmount(
+        allowance,
+        income,
+        allowance.OAS_EQUIVALENT,
+        allowance.OAS_EQUIVALENT_REDUCTION_RATE,
+    );
+}
+
+export function getAllowance(age: number, income: number): number {
+    return getAllowanceAmount(ALLOWANCE, age, income);
+}
+
+export function getAllowanceForTheSurvivor(age: number, income: number): number {
+    return getAllowanceAmount(ALLOWANCE_FOR_THE_SURVIVOR, age, income);
+}
+
+// The OAS recovery tax is deducted from the net income, it is added back with the OAS pension removed
+export function getGisIncomeFromNetIncome(netIncome: number, oasPension: number, employmentIncome = 0): number {
+    const otherIncome = netIncome - employmentIncome - oasPension + OAS.getRepayment(netIncome, oasPension);
+    return getGisIncome({ employmentIncome, otherIncome: Math.max(otherIncome, 0) });
+}
@@ -1,5 +1,9 @@
 export * from './canada-pension-plan';
+export * from './guaranteed-income-supplement';
 export * from './old-age-security';
+export * from './pension-benefits';
+export * from './pension-sharing';
 export * from './public-pension-plan';
 export * from './quebec-pension-plan';
+export * from './retirement-pension';
 export * from './supplemental-pension-plan';
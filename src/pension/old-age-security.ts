@@ -3,13 +3,19 @@ Sources
     https://www.canada.ca/en/services/benefits/publicpensions/cpp/old-age-security/benefit-amount.html
     https://www.canada.ca/en/services/benefits/publicpensions/cpp/old-age-security/recovery-tax.html
     https://www.canada.ca/en/services/benefits/publicpensions/cpp/old-age-security/benefit-amount.html (delay bonus)
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/old-age-security/eligibility.html (residence)
+
+Notes
+    getOasBenefit returns the amounts of the calendar year of the given date, paid from the request date.
+    Monthly payments are indexed quarterly. The quarters after the latest published one are projected from it with
+    the inflation rate (CPI), the years before the published payments use MONTHLY_PAYMENT_MAX.
 
 Revised
-    2025-01-02
+    2026-10-19
 */
 
 import { addYearsToDate, getMonthsDiff, now } from '../utils/date';
-import { clamp } from '../utils/math';
+import { clamp, inflate } from '../utils/math';
 
 export interface Repayment {
     MAX: number;
@@ -17,6 +23,17 @@ export interface Repayment {
     RATIO: number;
 }
 
+export interface Residence {
+    MIN_YEARS: number;
+    FULL_YEARS: number;
+}
+
+export interface OasBenefit {
+    gross: number;
+    clawback: number;
+    net: number;
+}
+
 export interface OldAgeSecurity {
     INCREASE: {
         AGE: number;
@@ -26,14 +43,19 @@ export interface OldAgeSecurity {
     MAX_AGE: number;
     MIN_AGE: number;
     MONTHLY_PAYMENT_MAX: number;
+    // Maximum monthly payment of each quarter, before the increase at 75
+    QUARTERLY_PAYMENTS_MAX: { [year: number]: number[] };
     MONTHLY_DELAY_BONUS: number;
     REPAYMENT: Repayment;
+    RESIDENCE: Residence;
 
     getMinRequestDateFactor(birthDate: Date, requestDate: Date): number,
 
     getRequestDateFactor(birthDate: Date, requestDate: Date): number;
 
     getRepaymentMax(startOfYearAge: number): number;
+
+    getRepayment(netIncome: number, annualPayment: number, inflationRate?: number, yearsToInflate?: number): number;
 }
 
 export const OAS: OldAgeSecurity = {
@@ -85,6 +107,10 @@ export const OAS: OldAgeSecurity = {
     getRepaymentMax(startOfYearAge: number): number {
         return startOfYearAge >= OAS.INCREASE.AGE - 1 ? OAS.INCREASE.REPAYMENT_MAX : OAS.REPAYMENT.MAX;
     },
+    getRepayment(netIncome: number, annualPayment: number, inflationRate = 0, yearsToInflate = 0): number {
+        const threshold = inflate(this.REPAYMENT.MIN, inflationRate, yearsToInflate);
+        return clamp((netIncome - threshold) * this.REPAYMENT.RATIO, 0, annualPayment);
+    },
     MAX_AGE: 70,
     MIN_AGE: 65,
     INCREASE: {
@@ -93,10 +119,71 @@ export const OAS: OldAgeSecurity = {
         REPAYMENT_MAX: 154196,
     },
     MONTHLY_PAYMENT_MAX: 734.95,
+    QUARTERLY_PAYMENTS_MAX: {
+        2024: [713.34, 713.34, 718.33, 727.67],
+        2025: [727.67, 727.67, 734.95, 740.09],
+    },
     MONTHLY_DELAY_BONUS: 0.006,
     REPAYMENT: {
         MAX: 148541,
         MIN: 93454,
         RATIO: 0.15,
     },
+    RESIDENCE: {
+        MIN_YEARS: 10,
+        FULL_YEARS: 40,
+    },
 };
+
+const MONTHS_PER_QUARTER = 3;
+const QUARTERS_PER_YEAR = 4;
+
+function getMonthlyPaymentMax(year: number, month: number, inflationRate: number): number {
+    const quarter = Math.floor(month / MONTHS_PER_QUARTER);
+    const payment = OAS.QUARTERLY_PAYMENTS_MAX[year]?.[quarter];
+    if (payment !== undefined) {
+        return payment;
+    }
+    const latestYear = Math.max(...Object.keys(OAS.QUARTERLY_PAYMENTS_MAX).map(Number));
+    const latestPayments = OAS.QUARTERLY_PAYMENTS_MAX[latestYear];
+    const quartersAfterLatest = ((year - latestYear) * QUARTERS_PER_YEAR) + quarter - (latestPayments.length - 1);
+    if (quartersAfterLatest <= 0) {
+        return OAS.MONTHLY_PAYMENT_MAX;
+    }
+    const latestPayment = latestPayments[latestPayments.length - 1];
+    return inflate(latestPayment, inflationRate, quartersAfterLatest / QUARTERS_PER_YEAR);
+}
+
+export function getResidenceFactor(yearsOfResidence: number): number {
+    const { MIN_YEARS, FULL_YEARS } = OAS.RESIDENCE;
+    return yearsOfResidence < MIN_YEARS ? 0 : Math.min(Math.floor(yearsOfResidence), FULL_YEARS) / FULL_YEARS;
+}
+
+export function getOasBenefit(
+    birthDate: Date,
+    requestDate: Date,
+    netIncome: number,
+    yearsOfResidence: number,
+    date = now(),
+    inflationRate = 0,
+): OasBenefit {
+    const year = date.getUTCFullYear();
+    const increaseDate = addYearsToDate(birthDate, OAS.INCREASE.AGE);
+    const factor = getResidenceFactor(yearsOfResidence) * OAS.getRequestDateFactor(birthDate, requestDate);
+
+    const gross = Array.from({ length: 12 }, (_, month) => month).reduce((previous, month) => {
+        const monthDate = new Date(Date.UTC(year, month + 1, 0));
+        if (getMonthsDiff(requestDate, monthDate) < 0) {
+            return previous;
+        }
+        const increase = getMonthsDiff(increaseDate, monthDate) >= 0 ? 1 + OAS.INCREASE.RATE : 1;
+        return previous + (getMonthlyPaymentMax(year, month, inflationRate) * factor * increase);
+    }, 0);
+    const clawback = OAS.getRepayment(netIncome, gross);
+
+    return {
+        gross,
+        clawback,
+        net: gross - clawback,
+    };
+}
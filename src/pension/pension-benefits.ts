@@ -0,0 +1,107 @@
+/*
+Sources
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/payment-amounts.html
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/cpp-survivor-pension.html
+    https://www.retraitequebec.gouv.qc.ca/en/publications/rrq/Pages/montants-rrq.aspx
+
+Notes
+    The contributor pension is the annual retirement pension of the contributor at the reference age, as returned by
+    getRetirementPension before the request date factor.
+    FLAT_BENEFIT survivor and disability amounts are the maximum pensions. Their flat-rate portion is the maximum
+    minus the earnings-related portion of the maximum retirement pension.
+    Survivors over 64 get the earnings-related portion only, up to OVER_64_WITHOUT_PENSION.
+    A retirement pension beneficiary becoming disabled before the reference age gets POST_RETIREMENT_DISABILITY.
+    The death benefit is a flat amount since 2019 for CPP and 2018 for QPP, whatever the contributor pension.
+
+Revised
+    2026-10-19
+*/
+
+import { getPlanMonthlyPenalty, PublicPensionPlan } from './public-pension-plan';
+
+const DISABILITY_RATE = 0.75;
+const SURVIVOR_FROM_45_AGE = 45;
+const SURVIVOR_OVER_64_AGE = 65;
+
+export type DisabilityCriterion = 'ANY_OCCUPATION' | 'USUAL_OCCUPATION';
+
+export type SurvivorBand = 'UNDER_45' | 'UNDER_45_WITH_CHILD' | 'UNDER_45_DISABLED' | 'FROM_45_TO_64' | 'OVER_64';
+
+export interface SurvivorProfile {
+    age: number;
+    hasChild?: boolean;
+    disabled?: boolean;
+    // Annual retirement pension of the survivor, for the combined retirement and survivor maximum
+    retirementPension?: number;
+}
+
+function getFlatRate(plan: PublicPensionPlan, maxPension: number, rate: number): number {
+    return Math.max(maxPension - (plan.MAX_PENSION.RETIREMENT * rate), 0);
+}
+
+export function getSurvivorBand(survivor: SurvivorProfile): SurvivorBand {
+    if (survivor.age >= SURVIVOR_OVER_64_AGE) {
+        return 'OVER_64';
+    }
+    if (survivor.age >= SURVIVOR_FROM_45_AGE) {
+        return 'FROM_45_TO_64';
+    }
+    if (survivor.disabled) {
+        return 'UNDER_45_DISABLED';
+    }
+    return survivor.hasChild ? 'UNDER_45_WITH_CHILD' : 'UNDER_45';
+}
+
+export function getSurvivorPension(
+    plan: PublicPensionPlan,
+    contributorPension: number,
+    survivor: SurvivorProfile,
+): number {
+    const { FLAT_BENEFIT, MAX_PENSION, SURVIVOR_RATES } = plan;
+    const band = getSurvivorBand(survivor);
+    const survivorPension = band === 'OVER_64'
+        ? Math.min(contributorPension * SURVIVOR_RATES.OVER_64, FLAT_BENEFIT.OVER_64_WITHOUT_PENSION)
+        : getFlatRate(plan, FLAT_BENEFIT[band], SURVIVOR_RATES.UNDER_65)
+            + (Math.min(contributorPension, MAX_PENSION.RETIREMENT) * SURVIVOR_RATES.UNDER_65);
+
+    if (survivor.retirementPension === undefined) {
+        return survivorPension;
+    }
+    const combinedMax = Math.max(MAX_PENSION.COMBINED_RETIREMENT_SURVIVOR - survivor.retirementPension, 0);
+    return Math.min(survivorPension, combinedMax);
+}
+
+export function getOrphanBenefit(plan: PublicPensionPlan, orphans = 1): number {
+    return plan.FLAT_BENEFIT.ORPHAN * orphans;
+}
+
+export function getDisabilityPension(plan: PublicPensionPlan, contributorPension: number): number {
+    const flatRate = getFlatRate(plan, plan.FLAT_BENEFIT.DISABILITY, DISABILITY_RATE);
+    return flatRate + (Math.min(contributorPension, plan.MAX_PENSION.RETIREMENT) * DISABILITY_RATE);
+}
+
+export function getDeathBenefit(plan: PublicPensionPlan): number {
+    return plan.MAX_PENSION.DEATH_BENEFIT;
+}
+
+export function getDisabilityCriterion(plan: PublicPensionPlan, age: number): DisabilityCriterion {
+    const { USUAL_OCCUPATION_AGE } = plan.DISABILITY;
+    return USUAL_OCCUPATION_AGE !== undefined && age >= USUAL_OCCUPATION_AGE ? 'USUAL_OCCUPATION' : 'ANY_OCCUPATION';
+}
+
+export function getPostRetirementDisabilityBenefit(plan: PublicPensionPlan, age: number): number {
+    return age < plan.DEFAULT_REFERENCE_AGE ? plan.FLAT_BENEFIT.POST_RETIREMENT_DISABILITY : 0;
+}
+
+// Factor of the retirement pension replacing the disability pension at the reference age
+export function getDisabilityConversionFactor(
+    plan: PublicPensionPlan,
+    disabilityMonthsFromMinRequestAge: number,
+    pension?: number,
+): number {
+    if (!plan.DISABILITY.CONVERSION_REDUCTION) {
+        return 1;
+    }
+    const months = Math.max(disabilityMonthsFromMinRequestAge, 0);
+    return 1 - (months * getPlanMonthlyPenalty(plan, pension));
+}
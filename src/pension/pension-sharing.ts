@@ -0,0 +1,130 @@
+/*
+Sources
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/cpp-benefit/pension-sharing.html
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/cpp-credit-split.html
+    https://www.retraitequebec.gouv.qc.ca/en/retraite/rrq/conjoints/Pages/cession-rente.aspx
+    https://www.retraitequebec.gouv.qc.ca/en/separation-deces/separation/Pages/partage-gains.aspx
+
+Notes
+    The joint contributory period starts when the younger spouse turns CONTRIBUTION_AGES.MIN, or at the first
+    MAX_INCOME year, and ends when both spouses receive their pension. The cohabitation ratio is computed in months.
+    Pension sharing assigns the cohabitation ratio of each pension to a common pool, split equally between spouses.
+    Credit splitting equally divides the pensionable earnings of both spouses, up to the year's YAMPE, for each
+    calendar year with cohabitation, including the first and last years.
+
+Revised
+    2026-10-19
+*/
+
+import { getMonthsDiff } from '../utils/date';
+import { PublicPensionPlan } from './public-pension-plan';
+import { getRetirementPension, RetirementPension, RetirementPensionProfile } from './retirement-pension';
+
+export type Spouses<T> = [T, T];
+
+export interface Cohabitation {
+    startDate: Date;
+    // Separation date, or ongoing cohabitation when undefined
+    endDate?: Date;
+}
+
+export interface JointContributoryPeriod {
+    startDate: Date;
+    endDate: Date;
+}
+
+export interface PensionSharing {
+    cohabitationRatio: number;
+    pensions: Spouses<number>;
+    sharedPensions: Spouses<number>;
+}
+
+function getEarningsCeiling(plan: PublicPensionPlan, year: number): number {
+    return plan.MAX_ADDITIONAL_INCOME[year] ?? plan.MAX_INCOME[year] ?? plan.PENSIONABLE_EARNINGS.YAMPE;
+}
+
+export function getJointContributoryPeriod(
+    plan: PublicPensionPlan,
+    profiles: Spouses<RetirementPensionProfile>,
+): JointContributoryPeriod {
+    const firstPlanYear = Math.min(...Object.keys(plan.MAX_INCOME).map(Number));
+    const youngerBirthYear = Math.max(...profiles.map((profile) => profile.birthDate.getUTCFullYear()));
+    const startYear = Math.max(youngerBirthYear + plan.CONTRIBUTION_AGES.MIN, firstPlanYear);
+    const endTime = Math.max(...profiles.map((profile) => profile.requestDate.getTime()));
+    return {
+        startDate: new Date(Date.UTC(startYear, 0, 1)),
+        endDate: new Date(endTime),
+    };
+}
+
+export function getCohabitationRatio(
+    plan: PublicPensionPlan,
+    profiles: Spouses<RetirementPensionProfile>,
+    cohabitation: Cohabitation,
+): number {
+    const { startDate, endDate } = getJointContributoryPeriod(plan, profiles);
+    const periodMonths = getMonthsDiff(startDate, endDate);
+    if (periodMonths <= 0) {
+        return 0;
+    }
+    const cohabitationStart = new Date(Math.max(cohabitation.startDate.getTime(), startDate.getTime()));
+    const cohabitationEnd = new Date(Math.min((cohabitation.endDate ?? endDate).getTime(), endDate.getTime()));
+    return Math.max(getMonthsDiff(cohabitationStart, cohabitationEnd), 0) / periodMonths;
+}
+
+export function getSharedPensions(pensions: Spouses<number>, cohabitationRatio: number): Spouses<number> {
+    const sharedPool = (pensions[0] + pensions[1]) * cohabitationRatio;
+    return [
+        (pensions[0] * (1 - cohabitationRatio)) + (sharedPool / 2),
+        (pensions[1] * (1 - cohabitationRatio)) + (sharedPool / 2),
+    ];
+}
+
+export function getPensionSharing(
+    plan: PublicPensionPlan,
+    profiles: Spouses<RetirementPensionProfile>,
+    cohabitation: Cohabitation,
+): PensionSharing {
+    const cohabitationRatio = getCohabitationRatio(plan, profiles, cohabitation);
+    const pensions: Spouses<number> = [
+        getRetirementPension(plan, profiles[0]).total,
+        getRetirementPension(plan, profiles[1]).total,
+    ];
+    return {
+        cohabitationRatio,
+        pensions,
+        sharedPensions: getSharedPensions(pensions, cohabitationRatio),
+    };
+}
+
+export function getCreditSplitProfiles(
+    plan: PublicPensionPlan,
+    profiles: Spouses<RetirementPensionProfile>,
+    cohabitation: Required<Cohabitation>,
+): Spouses<RetirementPensionProfile> {
+    const startYear = cohabitation.startDate.getUTCFullYear();
+    const endYear = cohabitation.endDate.getUTCFullYear();
+    const years = Array.from({ length: Math.max(endYear - startYear + 1, 0) }, (_, index) => startYear + index);
+
+    const splitEarnings = years.reduce((previous, year) => {
+        const ceiling = getEarningsCeiling(plan, year);
+        const [first, second] = profiles.map((profile) => (
+            Math.min(Math.max(profile.earnings[year] ?? 0, 0), ceiling)
+        ));
+        return { ...previous, [year]: (first + second) / 2 };
+    }, {} as RetirementPensionProfile['earnings']);
+
+    return [
+        { ...profiles[0], earnings: { ...profiles[0].earnings, ...splitEarnings } },
+        { ...profiles[1], earnings: { ...profiles[1].earnings, ...splitEarnings } },
+    ];
+}
+
+export function getCreditSplitPensions(
+    plan: PublicPensionPlan,
+    profiles: Spouses<RetirementPensionProfile>,
+    cohabitation: Required<Cohabitation>,
+): Spouses<RetirementPension> {
+    const [first, second] = getCreditSplitProfiles(plan, profiles, cohabitation);
+    return [getRetirementPension(plan, first), getRetirementPension(plan, second)];
+}
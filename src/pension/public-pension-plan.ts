@@ -1,3 +1,7 @@
+import { getByYear } from '../utils/collections';
+import { addYearsToDate } from '../utils/date';
+import { clamp } from '../utils/math';
+
 export interface Factor {
     FROM: number;
     TO: number;
@@ -14,9 +18,50 @@ export interface PensionableEarnings {
 
 export interface ContributionRates {
     BASE: number;
+    // Part of the BASE rate coming from the first enhancement
+    ENHANCEMENT_STEP_1: number;
     ENHANCEMENT_STEP_2: number;
 }
 
+export interface PayrollRates {
+    BASIC_EXEMPTION: number;
+    CONTRIBUTION_RATES: ContributionRates;
+}
+
+// Payroll parameters of a year, the YMPE and YAMPE come from MAX_INCOME and MAX_ADDITIONAL_INCOME
+export interface PayrollParameters extends PayrollRates {
+    YMPE: number;
+    YAMPE: number;
+}
+
+export interface ContributionAges {
+    MIN: number;
+    MAX: number;
+}
+
+export interface Contributions {
+    pensionableEarnings: number;
+    additionalPensionableEarnings: number;
+    // Employee shares, the employer pays the same amounts
+    base: number;
+    firstEnhancement: number;
+    secondEnhancement: number;
+    employee: number;
+    employer: number;
+    selfEmployed: number;
+}
+
+export interface DisabilityRules {
+    // Age from which the disability is assessed against the usual occupation instead of any occupation
+    USUAL_OCCUPATION_AGE?: number;
+    // The retirement pension replacing the disability pension is reduced for the months of disability pension paid
+    // from MIN_REQUEST_AGE, like an early retirement
+    CONVERSION_REDUCTION: boolean;
+}
+
+/**
+ * @deprecated The death benefit is a flat amount, use MAX_PENSION.DEATH_BENEFIT.
+ */
 export interface DeathBenefit {
     RATE: number;
 }
@@ -29,6 +74,8 @@ export interface FlatBenefit {
     UNDER_45_DISABLED: number;
     FROM_45_TO_64: number;
     OVER_64_WITHOUT_PENSION: number;
+    // Added to the retirement pension of a beneficiary becoming disabled before the reference age
+    POST_RETIREMENT_DISABILITY: number;
 }
 
 export type IndexationRateReferenceYear =
@@ -52,6 +99,12 @@ export type IndexationRateReferenceYear =
     | 2024;
 export type IndexationRateReference = [IndexationRateReferenceYear, number];
 
+export interface DropOut {
+    GENERAL_RATE: number;
+    // The general drop-out cannot reduce the contributory period under this number of years
+    MIN_YEARS: number;
+}
+
 export interface MaxPension {
     RETIREMENT: number;
     COMBINED_RETIREMENT_SURVIVOR: number;
@@ -61,6 +114,8 @@ export interface MaxPension {
 export interface MonthlyDelay {
     BONUS: number;
     PENALTY: number;
+    // Penalty of a pension of 0 when it depends on the pension amount, PENALTY then applies to the maximum pension
+    MIN_PENALTY?: number;
 }
 
 export interface SurvivorRate {
@@ -71,20 +126,117 @@ export interface SurvivorRate {
 export interface PublicPensionPlan {
     PENSIONABLE_EARNINGS: PensionableEarnings,
     CONTRIBUTION_RATES: ContributionRates,
+    CONTRIBUTION_AGES: ContributionAges,
+    /**
+     * @deprecated The death benefit is a flat amount, use MAX_PENSION.DEATH_BENEFIT.
+     */
     DEATH_BENEFIT: DeathBenefit;
     DEFAULT_REFERENCE_AGE: number;
+    DISABILITY: DisabilityRules;
+    DROP_OUT: DropOut;
     FLAT_BENEFIT: FlatBenefit;
     INDEXATION_RATE_REFERENCES: IndexationRateReference[];
     MAX_PENSION: MaxPension;
     MAX_INCOME: { [K: number]: number };
+    // Year's additional maximum pensionable earnings (YAMPE) since the second enhancement
+    MAX_ADDITIONAL_INCOME: { [K: number]: number };
     MAX_REQUEST_AGE: number;
     MIN_REQUEST_AGE: number;
     MONTHLY_DELAY: MonthlyDelay;
+    // Published rates of the past years, PENSIONABLE_EARNINGS and CONTRIBUTION_RATES hold the current year
+    PAYROLL_BY_YEAR: { [year: number]: PayrollRates };
     REPLACEMENT_FACTOR: number;
     SURVIVOR_RATES: SurvivorRate;
     YEARS_TO_FULL_PENSION: number;
 
-    getRequestDateFactor(birthDate: Date, requestDate: Date, customReferenceDate?: Date): number;
+    getMaxRequestAge(birthDate: Date): number;
+
+    // The pension at the reference age is used by plans with a MIN_PENALTY, the maximum pension is assumed otherwise
+    getRequestDateFactor(birthDate: Date, requestDate: Date, customReferenceDate?: Date, pension?: number): number;
 
     getAverageIndexationRate(): number;
+
+    getContributoryMonths(birthDate: Date, year: number, endDate?: Date): number;
+
+    getContributions(earnings: number, contributoryMonths?: number, year?: number): Contributions;
+}
+
+const MONTHS_PER_YEAR = 12;
+
+function getMonthOfYear(date: Date, year: number): number {
+    return clamp((date.getUTCFullYear() - year) * MONTHS_PER_YEAR + date.getUTCMonth(), -1, MONTHS_PER_YEAR);
+}
+
+// Contributions start the month after the MIN age birthday and stop after the MAX age birthday month or the end date
+// (death or disability)
+export function getPlanContributoryMonths(
+    plan: PublicPensionPlan,
+    birthDate: Date,
+    year: number,
+    endDate?: Date,
+): number {
+    const firstMonth = getMonthOfYear(addYearsToDate(birthDate, plan.CONTRIBUTION_AGES.MIN), year) + 1;
+    const lastMonths = [getMonthOfYear(addYearsToDate(birthDate, plan.CONTRIBUTION_AGES.MAX), year)];
+    if (endDate) {
+        lastMonths.push(getMonthOfYear(endDate, year));
+    }
+    const lastMonth = Math.min(...lastMonths, MONTHS_PER_YEAR - 1);
+    return Math.max(lastMonth - Math.max(firstMonth, 0) + 1, 0);
+}
+
+export function getPlanPayrollParameters(plan: PublicPensionPlan, year?: number): PayrollParameters {
+    const { BASIC_EXEMPTION, YMPE, YAMPE } = plan.PENSIONABLE_EARNINGS;
+    const currentRates = { BASIC_EXEMPTION, CONTRIBUTION_RATES: plan.CONTRIBUTION_RATES };
+    const payrollRates = getByYear(plan.PAYROLL_BY_YEAR, currentRates, year);
+    if (year === undefined) {
+        return { ...payrollRates, YMPE, YAMPE };
+    }
+
+    const ympe = plan.MAX_INCOME[year] ?? YMPE;
+    // There are no additional pensionable earnings before the second enhancement
+    const firstAdditionalYear = Math.min(...Object.keys(plan.MAX_ADDITIONAL_INCOME).map(Number));
+    const yampe = plan.MAX_ADDITIONAL_INCOME[year] ?? (year < firstAdditionalYear ? ympe : YAMPE);
+    return { ...payrollRates, YMPE: ympe, YAMPE: yampe };
+}
+
+// The basic exemption, YMPE and YAMPE are prorated by the contributory months
+export function getPlanContributions(
+    plan: PublicPensionPlan,
+    earnings: number,
+    contributoryMonths = MONTHS_PER_YEAR,
+    year?: number,
+): Contributions {
+    const { BASIC_EXEMPTION, YMPE, YAMPE, CONTRIBUTION_RATES } = getPlanPayrollParameters(plan, year);
+    const { BASE, ENHANCEMENT_STEP_1, ENHANCEMENT_STEP_2 } = CONTRIBUTION_RATES;
+    const proration = clamp(contributoryMonths, 0, MONTHS_PER_YEAR) / MONTHS_PER_YEAR;
+    const basicExemption = BASIC_EXEMPTION * proration;
+    const ympe = YMPE * proration;
+    const yampe = YAMPE * proration;
+
+    const pensionableEarnings = clamp(earnings, basicExemption, ympe) - basicExemption;
+    const additionalPensionableEarnings = clamp(earnings, ympe, yampe) - ympe;
+    const base = pensionableEarnings * (BASE - ENHANCEMENT_STEP_1);
+    const firstEnhancement = pensionableEarnings * ENHANCEMENT_STEP_1;
+    const secondEnhancement = additionalPensionableEarnings * ENHANCEMENT_STEP_2;
+    const employee = base + firstEnhancement + secondEnhancement;
+
+    return {
+        pensionableEarnings,
+        additionalPensionableEarnings,
+        base,
+        firstEnhancement,
+        secondEnhancement,
+        employee,
+        employer: employee,
+        selfEmployed: employee * 2,
+    };
+}
+
+export function getPlanMonthlyPenalty(plan: PublicPensionPlan, pension?: number): number {
+    const { PENALTY, MIN_PENALTY } = plan.MONTHLY_DELAY;
+    if (MIN_PENALTY === undefined || pension === undefined) {
+        return PENALTY;
+    }
+    const pensionRatio = clamp(pension / plan.MAX_PENSION.RETIREMENT, 0, 1);
+    return MIN_PENALTY + ((PENALTY - MIN_PENALTY) * pensionRatio);
 }
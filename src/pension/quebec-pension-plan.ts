@@ -1,14 +1,31 @@
 /*
 Sources
     https://www.retraitequebec.gouv.qc.ca/en/landing/indexation/Pages/montants-donnees-base.aspx
+    https://www.retraitequebec.gouv.qc.ca/en/retraite/rrq/Pages/age-demande.aspx
+    https://www.retraitequebec.gouv.qc.ca/en/invalidite/rrq/Pages/rente-invalidite.aspx
+
+Notes
+    Since 2024, the pension can be deferred to 72 by contributors who were not yet 70 on January 1st, 2024.
+    The early retirement penalty goes from MIN_PENALTY for a small pension to PENALTY for the maximum pension.
+    From 60, the disability is assessed against the usual occupation. The retirement pension replacing the disability
+    pension at 65 is reduced for each month of disability pension paid from 60.
 
 Revised
-    2024-12-30
+    2026-10-19
 */
 
 import { addYearsToDate, getMonthsDiff, now } from '../utils/date';
 import { clamp, roundToPrecision } from '../utils/math';
-import { PublicPensionPlan } from './public-pension-plan';
+import {
+    Contributions,
+    getPlanContributions,
+    getPlanContributoryMonths,
+    getPlanMonthlyPenalty,
+    PublicPensionPlan,
+} from './public-pension-plan';
+
+const EXTENDED_MAX_REQUEST_AGE_DATE = new Date(Date.UTC(2024, 0, 1));
+const PREVIOUS_MAX_REQUEST_AGE = 70;
 
 export const QPP: PublicPensionPlan = {
     PENSIONABLE_EARNINGS: {
@@ -25,10 +42,24 @@ export const QPP: PublicPensionPlan = {
     },
     CONTRIBUTION_RATES: {
         BASE: 0.064,
+        ENHANCEMENT_STEP_1: 0.01,
         ENHANCEMENT_STEP_2: 0.04,
     },
+    CONTRIBUTION_AGES: {
+        MIN: 18,
+        MAX: 72,
+    },
     DEATH_BENEFIT: { RATE: 0.5 },
     DEFAULT_REFERENCE_AGE: 65,
+    DISABILITY: {
+        USUAL_OCCUPATION_AGE: 60,
+        CONVERSION_REDUCTION: true,
+    },
+    DROP_OUT: {
+        GENERAL_RATE: 0.15,
+        // 120 months
+        MIN_YEARS: 10,
+    },
     FLAT_BENEFIT: {
         // Survivors' benefits
         ORPHAN: 3621.24,
@@ -40,6 +71,8 @@ export const QPP: PublicPensionPlan = {
         UNDER_45_DISABLED: 13615.32,
         FROM_45_TO_64: 13615.32,
         OVER_64_WITHOUT_PENSION: 10130.88,
+        // Additional amount for disability
+        POST_RETIREMENT_DISABILITY: 7049.40,
     },
     INDEXATION_RATE_REFERENCES: [
         [2007, 0.021],
@@ -123,6 +156,10 @@ export const QPP: PublicPensionPlan = {
         2024: 68500,
         2025: 71300,
     },
+    MAX_ADDITIONAL_INCOME: {
+        2024: 73200,
+        2025: 81200,
+    },
     MAX_PENSION: {
         // Max amount at age 65
         RETIREMENT: 17196,
@@ -135,6 +172,65 @@ export const QPP: PublicPensionPlan = {
     MONTHLY_DELAY: {
         BONUS: 0.0070,
         PENALTY: 0.0060,
+        MIN_PENALTY: 0.0050,
+    },
+    PAYROLL_BY_YEAR: {
+        2018: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.054,
+                ENHANCEMENT_STEP_1: 0,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2019: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.0555,
+                ENHANCEMENT_STEP_1: 0.0015,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2020: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.057,
+                ENHANCEMENT_STEP_1: 0.003,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2021: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.059,
+                ENHANCEMENT_STEP_1: 0.005,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2022: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.0615,
+                ENHANCEMENT_STEP_1: 0.0075,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2023: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.064,
+                ENHANCEMENT_STEP_1: 0.01,
+                ENHANCEMENT_STEP_2: 0,
+            },
+        },
+        2024: {
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: {
+                BASE: 0.064,
+                ENHANCEMENT_STEP_1: 0.01,
+                ENHANCEMENT_STEP_2: 0.04,
+            },
+        },
     },
     REPLACEMENT_FACTOR: 0.25,
     SURVIVOR_RATES: {
@@ -142,11 +238,16 @@ export const QPP: PublicPensionPlan = {
         UNDER_65: 0.375,
     },
     YEARS_TO_FULL_PENSION: 40,
-    getRequestDateFactor(birthDate: Date, requestDate: Date, customReferenceDate?: Date): number {
-        const { BONUS, PENALTY } = this.MONTHLY_DELAY;
+    getMaxRequestAge(birthDate: Date): number {
+        const previousMaxRequestDate = addYearsToDate(birthDate, PREVIOUS_MAX_REQUEST_AGE);
+        return previousMaxRequestDate < EXTENDED_MAX_REQUEST_AGE_DATE ? PREVIOUS_MAX_REQUEST_AGE : this.MAX_REQUEST_AGE;
+    },
+    getRequestDateFactor(birthDate: Date, requestDate: Date, customReferenceDate?: Date, pension?: number): number {
+        const { BONUS } = this.MONTHLY_DELAY;
+        const penalty = getPlanMonthlyPenalty(this, pension);
 
         const minRequestDate = addYearsToDate(birthDate, this.MIN_REQUEST_AGE);
-        const maxRequestDate = addYearsToDate(birthDate, this.MAX_REQUEST_AGE);
+        const maxRequestDate = addYearsToDate(birthDate, this.getMaxRequestAge(birthDate));
         const referenceDate = customReferenceDate || addYearsToDate(birthDate, this.DEFAULT_REFERENCE_AGE);
 
         const monthsToToday = getMonthsDiff(birthDate, now());
@@ -172,10 +273,16 @@ export const QPP: PublicPensionPlan = {
         let monthsDelta = clamp(monthsToRequestDate, monthsToMinRequestDate, monthsToMaxRequestDate);
         monthsDelta -= Math.max(monthsToLastBirthDay, monthsToReferenceDate);
 
-        return 1 + (monthsDelta * (monthsDelta >= 0 ? BONUS : PENALTY));
+        return 1 + (monthsDelta * (monthsDelta >= 0 ? BONUS : penalty));
     },
     getAverageIndexationRate(): number {
         const sum = this.INDEXATION_RATE_REFERENCES.reduce((previous, current) => previous + current[1], 0);
         return roundToPrecision(sum / this.INDEXATION_RATE_REFERENCES.length, 2);
     },
+    getContributoryMonths(birthDate: Date, year: number, endDate?: Date): number {
+        return getPlanContributoryMonths(this, birthDate, year, endDate);
+    },
+    getContributions(earnings: number, contributoryMonths?: number, year?: number): Contributions {
+        return getPlanContributions(this, earnings, contributoryMonths, year);
+    },
 };
@@ -0,0 +1,147 @@
+/*
+Sources
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/cpp-benefit/amount.html
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/cpp-enhancement.html
+    https://www.retraitequebec.gouv.qc.ca/en/retraite/rrq/calcul-rente/Pages/calcul-rente.aspx
+
+Notes
+    Earnings are adjusted to the current dollars with the ratio of the year's YMPE to the MPEA (YMPE_AVG_5).
+    The child-rearing and disability drop-outs only apply to the base component, the enhanced components are
+    always averaged over YEARS_TO_FULL_PENSION years.
+    Years are used as the unit of the contributory period, the exact months of the request are not considered.
+    The general drop-out is a rate of the months of the period, rounded to the month, of which whole years are dropped.
+
+Revised
+    2026-10-19
+*/
+
+import { PublicPensionPlan } from './public-pension-plan';
+
+const MONTHS_PER_YEAR = 12;
+const FIRST_ENHANCEMENT_YEAR = 2019;
+const SECOND_ENHANCEMENT_YEAR = 2024;
+// Share of the first enhancement contribution rate in effect during the phase-in (100% from 2023)
+const FIRST_ENHANCEMENT_PHASE_IN: { [year: number]: number } = {
+    2019: 0.15,
+    2020: 0.3,
+    2021: 0.5,
+    2022: 0.75,
+};
+const FIRST_ENHANCEMENT_REPLACEMENT_FACTOR = 1 / 12;
+const SECOND_ENHANCEMENT_REPLACEMENT_FACTOR = 1 / 3;
+
+export interface RetirementPensionProfile {
+    birthDate: Date;
+    requestDate: Date;
+    // Pensionable earnings by year
+    earnings: { [year: number]: number };
+    // Years with a child under 7
+    childRearingYears?: number[];
+    // Years with a disability pension, excluded from the contributory period
+    disabilityYears?: number[];
+}
+
+export interface RetirementPension {
+    contributoryYears: number;
+    droppedYears: number;
+    // Annual amounts at the reference age
+    base: number;
+    firstEnhancement: number;
+    secondEnhancement: number;
+    requestDateFactor: number;
+    // Annual pension at the request date
+    total: number;
+}
+
+function getYmpe(plan: PublicPensionPlan, year: number): number {
+    return plan.MAX_INCOME[year] ?? plan.PENSIONABLE_EARNINGS.YMPE;
+}
+
+function getYampe(plan: PublicPensionPlan, year: number): number {
+    return plan.MAX_ADDITIONAL_INCOME[year] ?? plan.PENSIONABLE_EARNINGS.YAMPE;
+}
+
+function getAverage(values: number[]): number {
+    return values.length ? values.reduce((previous, value) => previous + value, 0) / values.length : 0;
+}
+
+function getContributoryPeriod(plan: PublicPensionPlan, profile: RetirementPensionProfile): number[] {
+    const birthYear = profile.birthDate.getUTCFullYear();
+    const firstPlanYear = Math.min(...Object.keys(plan.MAX_INCOME).map(Number));
+    const firstYear = Math.max(birthYear + plan.CONTRIBUTION_AGES.MIN, firstPlanYear);
+    const lastYear = Math.min(profile.requestDate.getUTCFullYear(), birthYear + plan.CONTRIBUTION_AGES.MAX) - 1;
+    const disabilityYears = profile.disabilityYears ?? [];
+    return Array.from({ length: Math.max(lastYear - firstYear + 1, 0) }, (_, index) => firstYear + index)
+        .filter((year) => !disabilityYears.includes(year));
+}
+
+export function getAdjustedEarnings(plan: PublicPensionPlan, year: number, earnings: number): number {
+    const ympe = getYmpe(plan, year);
+    return (Math.min(Math.max(earnings, 0), ympe) / ympe) * plan.PENSIONABLE_EARNINGS.YMPE_AVG_5;
+}
+
+function getBaseEarnings(plan: PublicPensionPlan, profile: RetirementPensionProfile, years: number[]): number[] {
+    const childRearingYears = profile.childRearingYears ?? [];
+    const sortedEarnings = years
+        .map((year) => ({ year, earnings: getAdjustedEarnings(plan, year, profile.earnings[year] ?? 0) }))
+        .sort((first, second) => first.earnings - second.earnings);
+
+    // Child-rearing years are dropped, lowest first, as long as they lower the average
+    const withoutChildRearing = sortedEarnings.reduce((remaining, current) => {
+        const average = getAverage(remaining.map((entry) => entry.earnings));
+        const isDropped = childRearingYears.includes(current.year) && current.earnings < average;
+        return isDropped ? remaining.filter((entry) => entry !== current) : remaining;
+    }, sortedEarnings);
+
+    const { GENERAL_RATE, MIN_YEARS } = plan.DROP_OUT;
+    const count = withoutChildRearing.length;
+    const generalDropOutMonths = Math.round(count * MONTHS_PER_YEAR * GENERAL_RATE);
+    const generalDropOut = Math.min(Math.floor(generalDropOutMonths / MONTHS_PER_YEAR), Math.max(count - MIN_YEARS, 0));
+    return withoutChildRearing.slice(generalDropOut).map((entry) => entry.earnings);
+}
+
+function getEnhancedEarnings(
+    plan: PublicPensionPlan,
+    profile: RetirementPensionProfile,
+    years: number[],
+    getYearEarnings: (year: number, earnings: number) => number,
+): number {
+    return years.reduce((previous, year) => previous + getYearEarnings(year, profile.earnings[year] ?? 0), 0)
+        / plan.YEARS_TO_FULL_PENSION;
+}
+
+export function getRetirementPension(plan: PublicPensionPlan, profile: RetirementPensionProfile): RetirementPension {
+    const { YMPE_AVG_5 } = plan.PENSIONABLE_EARNINGS;
+    const years = getContributoryPeriod(plan, profile);
+    const baseEarnings = getBaseEarnings(plan, profile, years);
+    const base = getAverage(baseEarnings) * plan.REPLACEMENT_FACTOR;
+
+    const firstEnhancementYears = years.filter((year) => year >= FIRST_ENHANCEMENT_YEAR);
+    const firstEnhancement = getEnhancedEarnings(plan, profile, firstEnhancementYears, (year, earnings) => (
+        getAdjustedEarnings(plan, year, earnings) * (FIRST_ENHANCEMENT_PHASE_IN[year] ?? 1)
+    )) * FIRST_ENHANCEMENT_REPLACEMENT_FACTOR;
+
+    const secondEnhancementYears = years.filter((year) => year >= SECOND_ENHANCEMENT_YEAR);
+    const secondEnhancement = getEnhancedEarnings(plan, profile, secondEnhancementYears, (year, earnings) => {
+        const ympe = getYmpe(plan, year);
+        const additionalEarnings = Math.min(Math.max(earnings - ympe, 0), getYampe(plan, year) - ympe);
+        return (additionalEarnings / ympe) * YMPE_AVG_5;
+    }) * SECOND_ENHANCEMENT_REPLACEMENT_FACTOR;
+
+    const requestDateFactor = plan.getRequestDateFactor(
+        profile.birthDate,
+        profile.requestDate,
+        undefined,
+        base + firstEnhancement + secondEnhancement,
+    );
+
+    return {
+        contributoryYears: years.length,
+        droppedYears: years.length - baseEarnings.length,
+        base,
+        firstEnhancement,
+        secondEnhancement,
+        requestDateFactor,
+        total: (base + firstEnhancement + secondEnhancement) * requestDateFactor,
+    };
+}
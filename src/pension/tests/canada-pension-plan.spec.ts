@@ -1,4 +1,5 @@
 import { CPP } from '../canada-pension-plan';
+import { getPlanPayrollParameters } from '../public-pension-plan';
 
 describe('getRequestDateFactor', () => {
     it('should return 0 when request date is before the participant 65th (minimum age) birthday', () => {
@@ -140,3 +141,91 @@ describe('getRequestDateFactor', () => {
         expect(ratio).toBe(1 + (6 * CPP.MONTHLY_DELAY.BONUS));
     });
 });
+
+describe('getContributions', () => {
+    it('should not contribute under the basic exemption', () => {
+        const contributions = CPP.getContributions(3000);
+
+        expect(contributions.employee).toBe(0);
+    });
+
+    it('should split the base and first enhancement contributions', () => {
+        const contributions = CPP.getContributions(53500);
+
+        expect(contributions.pensionableEarnings).toBe(50000);
+        expect(contributions.base).toBeCloseTo(50000 * 0.0495, 6);
+        expect(contributions.firstEnhancement).toBeCloseTo(50000 * 0.01, 6);
+        expect(contributions.secondEnhancement).toBe(0);
+    });
+
+    it('should return the maximum contributions over the YAMPE', () => {
+        const contributions = CPP.getContributions(100000);
+
+        expect(contributions.secondEnhancement).toBeCloseTo(9900 * 0.04, 6);
+        expect(contributions.employee).toBeCloseTo(4034.10 + 396, 6);
+        expect(contributions.employer).toBe(contributions.employee);
+        expect(contributions.selfEmployed).toBeCloseTo(2 * (4034.10 + 396), 6);
+    });
+
+    it('should use the parameters of the given year', () => {
+        expect(CPP.getContributions(100000, 12, 2024).employee).toBeCloseTo(3867.50 + 188, 6);
+        expect(CPP.getContributions(100000, 12, 2019).employee).toBeCloseTo(2748.90, 6);
+        expect(CPP.getContributions(100000, 12, 2030).employee).toBeCloseTo(4034.10 + 396, 6);
+    });
+
+    it('should prorate the exemption and maximums by the contributory months', () => {
+        const contributions = CPP.getContributions(100000, 6);
+
+        expect(contributions.pensionableEarnings).toBe(35650 - 1750);
+        expect(contributions.additionalPensionableEarnings).toBe(40600 - 35650);
+    });
+});
+
+describe('getContributoryMonths', () => {
+    const birthDate = new Date('1990-05-15');
+
+    it('should return all the months of a full year', () => {
+        expect(CPP.getContributoryMonths(birthDate, 2025)).toBe(12);
+    });
+
+    it('should start the month after the 18th birthday', () => {
+        expect(CPP.getContributoryMonths(birthDate, 2008)).toBe(7);
+        expect(CPP.getContributoryMonths(birthDate, 2007)).toBe(0);
+    });
+
+    it('should stop after the month of the 70th birthday', () => {
+        expect(CPP.getContributoryMonths(birthDate, 2060)).toBe(5);
+        expect(CPP.getContributoryMonths(birthDate, 2061)).toBe(0);
+    });
+
+    it('should stop after the month of death or disability', () => {
+        expect(CPP.getContributoryMonths(birthDate, 2025, new Date('2025-03-10'))).toBe(3);
+        expect(CPP.getContributoryMonths(birthDate, 2025, new Date('2024-12-31'))).toBe(0);
+    });
+});
+
+describe('getPlanPayrollParameters', () => {
+    it('should return the current parameters without year', () => {
+        expect(getPlanPayrollParameters(CPP)).toEqual({
+            BASIC_EXEMPTION: 3500,
+            CONTRIBUTION_RATES: CPP.CONTRIBUTION_RATES,
+            YMPE: 71300,
+            YAMPE: 81200,
+        });
+    });
+
+    it('should return the YMPE and YAMPE of the year', () => {
+        const parameters = getPlanPayrollParameters(CPP, 2024);
+
+        expect(parameters.YMPE).toBe(68500);
+        expect(parameters.YAMPE).toBe(73200);
+        expect(parameters.CONTRIBUTION_RATES.BASE).toBe(0.0595);
+    });
+
+    it('should not have additional pensionable earnings before 2024', () => {
+        const parameters = getPlanPayrollParameters(CPP, 2021);
+
+        expect(parameters.YAMPE).toBe(parameters.YMPE);
+        expect(parameters.CONTRIBUTION_RATES.ENHANCEMENT_STEP_1).toBe(0.005);
+    });
+});
@@ -0,0 +1,88 @@
+import {
+    ALLOWANCE,
+    ALLOWANCE_FOR_THE_SURVIVOR,
+    getAllowance,
+    getAllowanceForTheSurvivor,
+    getGisBenefit,
+    getGisEmploymentExemption,
+    getGisIncome,
+    getGisIncomeFromNetIncome,
+    GIS,
+} from '../guaranteed-income-supplement';
+
+describe('getGisEmploymentExemption', () => {
+    it('should exempt the first $5,000 and half of the next $10,000', () => {
+        expect(getGisEmploymentExemption(3000)).toBe(3000);
+        expect(getGisEmploymentExemption(5000)).toBe(5000);
+        expect(getGisEmploymentExemption(9000)).toBe(7000);
+        expect(getGisEmploymentExemption(20000)).toBe(10000);
+    });
+});
+
+describe('getGisIncome', () => {
+    it('should add the other income to the employment income after the exemption', () => {
+        expect(getGisIncome({ employmentIncome: 9000, otherIncome: 4000 })).toBe(6000);
+        expect(getGisIncome({ otherIncome: 4000 })).toBe(4000);
+        expect(getGisIncome({})).toBe(0);
+    });
+});
+
+describe('getGisIncomeFromNetIncome', () => {
+    it('should remove the OAS pension and the employment exemption', () => {
+        expect(getGisIncomeFromNetIncome(20000, 8732.04, 4000)).toBeCloseTo(7267.96, 6);
+    });
+});
+
+describe('getGisBenefit', () => {
+    it('should return the maximum without income', () => {
+        expect(getGisBenefit('SINGLE', 0)).toBeCloseTo(GIS.SINGLE.MONTHLY_PAYMENT_MAX * 12, 6);
+        expect(getGisBenefit('SPOUSE_RECEIVING_OAS', 0))
+            .toBeCloseTo(GIS.SPOUSE_RECEIVING_OAS.MONTHLY_PAYMENT_MAX * 12, 6);
+        expect(getGisBenefit('SPOUSE_NOT_RECEIVING_OAS', 8000))
+            .toBeCloseTo(GIS.SPOUSE_NOT_RECEIVING_OAS.MONTHLY_PAYMENT_MAX * 12, 6);
+    });
+
+    it('should only reduce the base portion under the top-up threshold', () => {
+        expect(getGisBenefit('SINGLE', 2000)).toBeCloseTo((1086.88 * 12) - 1000, 6);
+    });
+
+    it('should reduce the base portion and the top-up over the top-up threshold', () => {
+        expect(getGisBenefit('SINGLE', 6000)).toBeCloseTo((1086.88 * 12) - 3000 - 1000, 6);
+        expect(getGisBenefit('SPOUSE_RECEIVING_OAS', 8000)).toBeCloseTo((654.23 * 12) - 2000 - 500, 6);
+    });
+
+    it('should stop at the income threshold', () => {
+        expect(getGisBenefit('SINGLE', 22056)).toBeCloseTo(0, 6);
+        expect(getGisBenefit('SPOUSE_RECEIVING_OAS', 29136)).toBeCloseTo(0, 6);
+        expect(getGisBenefit('SPOUSE_NOT_RECEIVING_OAS', 52848)).toBeCloseTo(0, 6);
+        expect(getGisBenefit('SPOUSE_RECEIVING_ALLOWANCE', 40800)).toBeCloseTo(0, 6);
+        expect(getGisBenefit('SINGLE', 30000)).toBe(0);
+    });
+});
+
+describe('getAllowance', () => {
+    it('should return the maximum without income', () => {
+        expect(getAllowance(62, 0)).toBeCloseTo(ALLOWANCE.MONTHLY_PAYMENT_MAX * 12, 6);
+    });
+
+    it('should reduce the OAS-equivalent portion first', () => {
+        expect(getAllowance(62, 4000)).toBeCloseTo((1381.90 * 12) - 3000, 6);
+    });
+
+    it('should return 0 outside of the ages or over the income threshold', () => {
+        expect(getAllowance(59, 0)).toBe(0);
+        expect(getAllowance(65, 0)).toBe(0);
+        expect(getAllowance(62, 40800)).toBeCloseTo(0, 0);
+    });
+});
+
+describe('getAllowanceForTheSurvivor', () => {
+    it('should return the maximum without income', () => {
+        expect(getAllowanceForTheSurvivor(60, 0)).toBeCloseTo(ALLOWANCE_FOR_THE_SURVIVOR.MONTHLY_PAYMENT_MAX * 12, 6);
+    });
+
+    it('should stop at the income threshold', () => {
+        expect(getAllowanceForTheSurvivor(60, 29712)).toBeCloseTo(0, 0);
+        expect(getAllowanceForTheSurvivor(66, 0)).toBe(0);
+    });
+});
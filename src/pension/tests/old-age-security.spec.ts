@@ -1,4 +1,4 @@
-import { OAS } from '../old-age-security';
+import { getOasBenefit, getResidenceFactor, OAS } from '../old-age-security';
 
 describe('getRequestDateFactor', () => {
     it('should return 0 when request date is before the participant 65th (minimum age) birthday', () => {
@@ -169,3 +169,75 @@ describe('getRepaymentMax', () => {
         expect(amount).toBe(OAS.INCREASE.REPAYMENT_MAX);
     });
 });
+describe('getRepayment', () => {
+    it('should not recover the pension under the threshold', () => {
+        expect(OAS.getRepayment(OAS.REPAYMENT.MIN, 8819)).toBe(0);
+    });
+    it('should recover a ratio of the income over the threshold', () => {
+        expect(OAS.getRepayment(OAS.REPAYMENT.MIN + 10000, 8819)).toBeCloseTo(1500, 6);
+    });
+    it('should not recover more than the pension', () => {
+        expect(OAS.getRepayment(OAS.REPAYMENT.MAX + 10000, 8819)).toBe(8819);
+    });
+    it('should inflate the threshold', () => {
+        expect(OAS.getRepayment(OAS.REPAYMENT.MIN * 1.1, 8819, 0.1, 1)).toBeCloseTo(0, 6);
+    });
+});
+describe('getResidenceFactor', () => {
+    it('should return a partial pension by years of residence', () => {
+        expect(getResidenceFactor(9)).toBe(0);
+        expect(getResidenceFactor(20)).toBe(0.5);
+        expect(getResidenceFactor(45)).toBe(1);
+    });
+});
+describe('getOasBenefit', () => {
+    const birthDate = new Date('1955-01-01');
+    const requestDate = new Date('2020-01-01');
+    const date = new Date('2025-06-01');
+    const maxGross = (727.67 * 6) + (734.95 * 3) + (740.09 * 3);
+
+    it('should sum the quarterly payments of the year', () => {
+        const benefit = getOasBenefit(birthDate, requestDate, 50000, 40, date);
+
+        expect(benefit.gross).toBeCloseTo(maxGross, 6);
+        expect(benefit.clawback).toBe(0);
+        expect(benefit.net).toBeCloseTo(maxGross, 6);
+    });
+    it('should prorate the pension by years of residence', () => {
+        expect(getOasBenefit(birthDate, requestDate, 50000, 30, date).gross).toBeCloseTo(maxGross * 0.75, 6);
+    });
+    it('should only pay the months after the request date, with the deferral bonus', () => {
+        const benefit = getOasBenefit(new Date('1960-01-01'), new Date('2025-10-01'), 50000, 40, date);
+
+        expect(benefit.gross).toBeCloseTo(740.09 * 3 * (1 + (9 * OAS.MONTHLY_DELAY_BONUS)), 6);
+    });
+    it('should increase the pension from the month of the 75th birthday', () => {
+        const benefit = getOasBenefit(new Date('1950-07-01'), new Date('2015-07-01'), 50000, 40, date);
+
+        expect(benefit.gross).toBeCloseTo((727.67 * 6) + (((734.95 * 3) + (740.09 * 3)) * 1.1), 6);
+    });
+    it('should recover 15% of the net income over the threshold', () => {
+        const benefit = getOasBenefit(birthDate, requestDate, OAS.REPAYMENT.MIN + 10000, 40, date);
+
+        expect(benefit.clawback).toBeCloseTo(1500, 6);
+        expect(benefit.net).toBeCloseTo(maxGross - 1500, 6);
+    });
+    it('should recover the whole pension over the maximum', () => {
+        expect(getOasBenefit(birthDate, requestDate, 200000, 40, date).net).toBe(0);
+    });
+    it('should use the published quarters of a prior year', () => {
+        const benefit = getOasBenefit(birthDate, requestDate, 50000, 40, new Date('2024-06-01'));
+
+        expect(benefit.gross).toBeCloseTo((713.34 * 6) + (718.33 * 3) + (727.67 * 3), 6);
+    });
+    it('should project the quarters after the latest published one with the inflation rate', () => {
+        const benefit = getOasBenefit(birthDate, requestDate, 50000, 40, new Date('2026-06-01'), 0.02);
+        const expectedGross = [1, 2, 3, 4].reduce((previous, quarter) => (
+            previous + (740.09 * (1.02 ** (quarter / 4)) * 3)
+        ), 0);
+
+        expect(benefit.gross).toBeCloseTo(expectedGross, 6);
+        expect(getOasBenefit(birthDate, requestDate, 50000, 40, new Date('2026-06-01')).gross)
+            .toBeCloseTo(740.09 * 12, 6);
+    });
+});
@@ -0,0 +1,104 @@
+import { CPP } from '../canada-pension-plan';
+import {
+    getDeathBenefit,
+    getDisabilityConversionFactor,
+    getDisabilityCriterion,
+    getDisabilityPension,
+    getOrphanBenefit,
+    getPostRetirementDisabilityBenefit,
+    getSurvivorBand,
+    getSurvivorPension,
+} from '../pension-benefits';
+import { QPP } from '../quebec-pension-plan';
+
+describe('getSurvivorBand', () => {
+    it('should return the band of the survivor', () => {
+        expect(getSurvivorBand({ age: 40 })).toBe('UNDER_45');
+        expect(getSurvivorBand({ age: 40, hasChild: true })).toBe('UNDER_45_WITH_CHILD');
+        expect(getSurvivorBand({ age: 40, hasChild: true, disabled: true })).toBe('UNDER_45_DISABLED');
+        expect(getSurvivorBand({ age: 45 })).toBe('FROM_45_TO_64');
+        expect(getSurvivorBand({ age: 65 })).toBe('OVER_64');
+    });
+});
+
+describe('getSurvivorPension', () => {
+    it('should return the maximum pension when the contributor had the maximum pension', () => {
+        const maxPension = QPP.MAX_PENSION.RETIREMENT;
+
+        expect(getSurvivorPension(QPP, maxPension, { age: 40 })).toBeCloseTo(QPP.FLAT_BENEFIT.UNDER_45, 6);
+        expect(getSurvivorPension(QPP, maxPension, { age: 40, hasChild: true }))
+            .toBeCloseTo(QPP.FLAT_BENEFIT.UNDER_45_WITH_CHILD, 6);
+        expect(getSurvivorPension(QPP, maxPension, { age: 50 })).toBeCloseTo(QPP.FLAT_BENEFIT.FROM_45_TO_64, 6);
+    });
+
+    it('should add the flat rate to 37.5% of the contributor pension under 65', () => {
+        const flatRate = CPP.FLAT_BENEFIT.FROM_45_TO_64 - (CPP.MAX_PENSION.RETIREMENT * 0.375);
+
+        expect(getSurvivorPension(CPP, 10000, { age: 50 })).toBeCloseTo(flatRate + 3750, 6);
+    });
+
+    it('should return 60% of the contributor pension over 64', () => {
+        expect(getSurvivorPension(CPP, 10000, { age: 70 })).toBeCloseTo(6000, 6);
+        expect(getSurvivorPension(CPP, 100000, { age: 70 })).toBe(CPP.FLAT_BENEFIT.OVER_64_WITHOUT_PENSION);
+    });
+
+    it('should limit the combined retirement and survivor pensions', () => {
+        const survivor = { age: 70, retirementPension: CPP.MAX_PENSION.COMBINED_RETIREMENT_SURVIVOR - 1000 };
+
+        expect(getSurvivorPension(CPP, 10000, survivor)).toBe(1000);
+        expect(getSurvivorPension(CPP, 10000, { age: 70, retirementPension: 5000 })).toBeCloseTo(6000, 6);
+    });
+});
+
+describe('getOrphanBenefit', () => {
+    it('should pay the flat benefit for each orphan', () => {
+        expect(getOrphanBenefit(CPP)).toBe(CPP.FLAT_BENEFIT.ORPHAN);
+        expect(getOrphanBenefit(QPP, 2)).toBeCloseTo(QPP.FLAT_BENEFIT.ORPHAN * 2, 6);
+    });
+});
+
+describe('getDisabilityPension', () => {
+    it('should return the maximum pension when the contributor had the maximum pension', () => {
+        expect(getDisabilityPension(CPP, CPP.MAX_PENSION.RETIREMENT)).toBeCloseTo(CPP.FLAT_BENEFIT.DISABILITY, 6);
+    });
+
+    it('should add the flat rate to 75% of the contributor pension', () => {
+        const flatRate = QPP.FLAT_BENEFIT.DISABILITY - (QPP.MAX_PENSION.RETIREMENT * 0.75);
+
+        expect(getDisabilityPension(QPP, 8000)).toBeCloseTo(flatRate + 6000, 6);
+    });
+});
+
+describe('getDeathBenefit', () => {
+    it('should return the flat death benefit', () => {
+        expect(getDeathBenefit(CPP)).toBe(2500);
+        expect(getDeathBenefit(QPP)).toBe(2500);
+    });
+});
+
+describe('getDisabilityCriterion', () => {
+    it('should assess QPP disability against the usual occupation from 60', () => {
+        expect(getDisabilityCriterion(QPP, 59)).toBe('ANY_OCCUPATION');
+        expect(getDisabilityCriterion(QPP, 60)).toBe('USUAL_OCCUPATION');
+        expect(getDisabilityCriterion(CPP, 62)).toBe('ANY_OCCUPATION');
+    });
+});
+
+describe('getPostRetirementDisabilityBenefit', () => {
+    it('should only be paid before the reference age', () => {
+        expect(getPostRetirementDisabilityBenefit(CPP, 62)).toBe(CPP.FLAT_BENEFIT.POST_RETIREMENT_DISABILITY);
+        expect(getPostRetirementDisabilityBenefit(QPP, 64)).toBe(QPP.FLAT_BENEFIT.POST_RETIREMENT_DISABILITY);
+        expect(getPostRetirementDisabilityBenefit(QPP, 65)).toBe(0);
+    });
+});
+
+describe('getDisabilityConversionFactor', () => {
+    it('should reduce the QPP retirement pension for the disability months from 60', () => {
+        expect(getDisabilityConversionFactor(QPP, 24)).toBeCloseTo(1 - (24 * 0.006), 6);
+        expect(getDisabilityConversionFactor(QPP, 24, 0)).toBeCloseTo(1 - (24 * 0.005), 6);
+    });
+
+    it('should not reduce the CPP retirement pension', () => {
+        expect(getDisabilityConversionFactor(CPP, 24)).toBe(1);
+    });
+});
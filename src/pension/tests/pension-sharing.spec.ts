@@ -0,0 +1,97 @@
+import { CPP } from '../canada-pension-plan';
+import {
+    getCohabitationRatio,
+    getCreditSplitPensions,
+    getCreditSplitProfiles,
+    getJointContributoryPeriod,
+    getPensionSharing,
+    getSharedPensions,
+    Spouses,
+} from '../pension-sharing';
+import { QPP } from '../quebec-pension-plan';
+import { getRetirementPension, RetirementPensionProfile } from '../retirement-pension';
+
+function getEarnings(fromYear: number, toYear: number, amount: number): { [year: number]: number } {
+    return Array.from({ length: toYear - fromYear + 1 }, (_, index) => fromYear + index)
+        .reduce((previous, year) => ({ ...previous, [year]: amount }), {});
+}
+
+const profiles: Spouses<RetirementPensionProfile> = [
+    {
+        birthDate: new Date('1960-01-01'),
+        requestDate: new Date('2025-01-01'),
+        earnings: getEarnings(1978, 2024, 1000000),
+    },
+    {
+        birthDate: new Date('1962-01-01'),
+        requestDate: new Date('2027-01-01'),
+        earnings: getEarnings(1980, 1990, 20000),
+    },
+];
+// 1980 to 2027
+const JOINT_MONTHS = 564;
+
+describe('getJointContributoryPeriod', () => {
+    it('should start when the younger spouse turns 18 and end at the last request date', () => {
+        const { startDate, endDate } = getJointContributoryPeriod(CPP, profiles);
+
+        expect(startDate).toEqual(new Date('1980-01-01'));
+        expect(endDate).toEqual(new Date('2027-01-01'));
+    });
+});
+
+describe('getCohabitationRatio', () => {
+    it('should return the cohabitation months over the joint contributory period', () => {
+        expect(getCohabitationRatio(CPP, profiles, { startDate: new Date('1990-01-01') }))
+            .toBeCloseTo(444 / JOINT_MONTHS, 6);
+        expect(getCohabitationRatio(CPP, profiles, {
+            startDate: new Date('1990-01-01'),
+            endDate: new Date('2010-01-01'),
+        })).toBeCloseTo(240 / JOINT_MONTHS, 6);
+    });
+
+    it('should only count the cohabitation during the joint contributory period', () => {
+        expect(getCohabitationRatio(CPP, profiles, { startDate: new Date('1975-01-01') })).toBe(1);
+        expect(getCohabitationRatio(CPP, profiles, { startDate: new Date('2030-01-01') })).toBe(0);
+    });
+});
+
+describe('getSharedPensions', () => {
+    it('should split the shared portion of both pensions equally', () => {
+        expect(getSharedPensions([10000, 2000], 0.5)).toEqual([8000, 4000]);
+        expect(getSharedPensions([10000, 2000], 1)).toEqual([6000, 6000]);
+        expect(getSharedPensions([10000, 2000], 0)).toEqual([10000, 2000]);
+    });
+});
+
+describe('getPensionSharing', () => {
+    it('should keep the total of the pensions of the couple', () => {
+        const sharing = getPensionSharing(QPP, profiles, { startDate: new Date('1990-01-01') });
+
+        expect(sharing.pensions[0]).toBeCloseTo(getRetirementPension(QPP, profiles[0]).total, 6);
+        expect(sharing.sharedPensions[0]).toBeLessThan(sharing.pensions[0]);
+        expect(sharing.sharedPensions[1]).toBeGreaterThan(sharing.pensions[1]);
+        expect(sharing.sharedPensions[0] + sharing.sharedPensions[1])
+            .toBeCloseTo(sharing.pensions[0] + sharing.pensions[1], 6);
+    });
+});
+
+describe('getCreditSplitProfiles', () => {
+    const cohabitation = { startDate: new Date('2000-06-01'), endDate: new Date('2009-03-01') };
+
+    it('should split the earnings up to the YMPE of each cohabitation year', () => {
+        const [first, second] = getCreditSplitProfiles(CPP, profiles, cohabitation);
+
+        expect(first.earnings[2000]).toBe(CPP.MAX_INCOME[2000] / 2);
+        expect(second.earnings[2009]).toBe(CPP.MAX_INCOME[2009] / 2);
+        expect(first.earnings[2010]).toBe(1000000);
+        expect(second.earnings[1990]).toBe(20000);
+    });
+
+    it('should move pension from the higher earner to the other spouse', () => {
+        const [first, second] = getCreditSplitPensions(CPP, profiles, cohabitation);
+
+        expect(first.total).toBeLessThan(getRetirementPension(CPP, profiles[0]).total);
+        expect(second.total).toBeGreaterThan(getRetirementPension(CPP, profiles[1]).total);
+    });
+});
@@ -133,6 +133,26 @@ describe('getRequestDateFactor', () => {
         expect(ratio).toBe(1);
     });
 
+    it('should reduce the early retirement penalty for a smaller pension', () => {
+        const birthDate = new Date('1980-01-01');
+        const requestDate = new Date('2044-01-01'); // on his 64th birthday
+
+        expect(QPP.getRequestDateFactor(birthDate, requestDate, undefined, QPP.MAX_PENSION.RETIREMENT))
+            .toBeCloseTo(1 - (12 * 0.006), 6);
+        expect(QPP.getRequestDateFactor(birthDate, requestDate, undefined, QPP.MAX_PENSION.RETIREMENT / 2))
+            .toBeCloseTo(1 - (12 * 0.0055), 6);
+        expect(QPP.getRequestDateFactor(birthDate, requestDate, undefined, 0)).toBeCloseTo(1 - (12 * 0.005), 6);
+    });
+
+    it('should not defer past 70 when the participant was 70 before 2024', () => {
+        const birthDate = new Date('1952-06-01'); // 67 years old
+        const requestDate = new Date('2024-06-01'); // on his 72nd birthday
+
+        const ratio = QPP.getRequestDateFactor(birthDate, requestDate);
+
+        expect(ratio).toBe(1 + (36 * QPP.MONTHLY_DELAY.BONUS));
+    });
+
     it('should use a custom reference date on calculation when given', () => {
         const birthDate = new Date('1980-01-01');
         const referenceDate = new Date('2046-01-01');
@@ -143,3 +163,26 @@ describe('getRequestDateFactor', () => {
         expect(ratio).toBe(1 + (6 * QPP.MONTHLY_DELAY.BONUS));
     });
 });
+
+describe('getMaxRequestAge', () => {
+    it('should return 72 when the participant turns 70 from 2024', () => {
+        expect(QPP.getMaxRequestAge(new Date('1954-01-01'))).toBe(72);
+        expect(QPP.getMaxRequestAge(new Date('1953-12-31'))).toBe(70);
+    });
+});
+
+describe('getContributions', () => {
+    it('should use the QPP base rate', () => {
+        const contributions = QPP.getContributions(100000);
+
+        expect(contributions.base).toBeCloseTo(67800 * 0.054, 6);
+        expect(contributions.firstEnhancement).toBeCloseTo(67800 * 0.01, 6);
+        expect(contributions.employee).toBeCloseTo(4339.20 + 396, 6);
+    });
+});
+
+describe('getContributoryMonths', () => {
+    it('should contribute after 70', () => {
+        expect(QPP.getContributoryMonths(new Date('1955-05-15'), 2025)).toBe(12);
+    });
+});
@@ -0,0 +1,107 @@
+import { CPP } from '../canada-pension-plan';
+import { QPP } from '../quebec-pension-plan';
+import { getRetirementPension } from '../retirement-pension';
+
+function getEarnings(fromYear: number, toYear: number, amount: number): { [year: number]: number } {
+    return Array.from({ length: toYear - fromYear + 1 }, (_, index) => fromYear + index)
+        .reduce((previous, year) => ({ ...previous, [year]: amount }), {});
+}
+
+const birthDate = new Date('1960-01-01');
+const MPEA = CPP.PENSIONABLE_EARNINGS.YMPE_AVG_5;
+// 10 years without earnings in a 42 years contributory period
+const profileWithGaps = {
+    birthDate,
+    requestDate: new Date('2020-01-01'),
+    earnings: {
+        ...getEarnings(1978, 2019, 1000000),
+        ...getEarnings(1980, 1989, 0),
+    },
+};
+
+describe('getRetirementPension', () => {
+    it('should return the maximum base pension for earnings over the YMPE', () => {
+        const profile = { birthDate, requestDate: new Date('2025-01-01'), earnings: getEarnings(1978, 2024, 1000000) };
+        const pension = getRetirementPension(CPP, profile);
+
+        expect(pension.contributoryYears).toBe(47);
+        expect(pension.droppedYears).toBe(8);
+        expect(pension.base).toBeCloseTo(MPEA * 0.25, 6);
+        expect(pension.requestDateFactor).toBe(1);
+    });
+
+    it('should compute the enhanced components from 2019', () => {
+        const profile = { birthDate, requestDate: new Date('2025-01-01'), earnings: getEarnings(1978, 2024, 1000000) };
+        const pension = getRetirementPension(CPP, profile);
+        const secondEnhancementRatio = (73200 - 68500) / 68500;
+
+        expect(pension.firstEnhancement).toBeCloseTo((((0.15 + 0.3 + 0.5 + 0.75 + 1 + 1) * MPEA) / 40) / 12, 6);
+        expect(pension.secondEnhancement).toBeCloseTo(((secondEnhancementRatio * MPEA) / 40) / 3, 6);
+        expect(pension.total).toBeCloseTo(pension.base + pension.firstEnhancement + pension.secondEnhancement, 6);
+    });
+
+    it('should drop 17% of the months of the contributory period', () => {
+        const pension = getRetirementPension(CPP, profileWithGaps);
+
+        expect(pension.droppedYears).toBe(7);
+        expect(pension.base).toBeCloseTo(((MPEA * 32) / 35) * 0.25, 6);
+    });
+
+    it('should not reduce the contributory period under 10 years with the general drop-out', () => {
+        const disabilityYears = Object.keys(getEarnings(1986, 2017, 0)).map(Number);
+        const pension = getRetirementPension(CPP, { ...profileWithGaps, disabilityYears });
+
+        expect(pension.contributoryYears).toBe(10);
+        expect(pension.droppedYears).toBe(0);
+        expect(pension.base).toBeCloseTo(((MPEA * 4) / 10) * 0.25, 6);
+    });
+
+    it('should drop the child-rearing years', () => {
+        const profile = { ...profileWithGaps, childRearingYears: [1980, 1981, 1982] };
+        const pension = getRetirementPension(CPP, profile);
+
+        expect(pension.contributoryYears).toBe(42);
+        expect(pension.droppedYears).toBe(9);
+        expect(pension.base).toBeCloseTo(((MPEA * 32) / 33) * 0.25, 6);
+    });
+
+    it('should not drop child-rearing years with higher earnings', () => {
+        const profile = { ...profileWithGaps, childRearingYears: [1990] };
+
+        expect(getRetirementPension(CPP, profile).droppedYears).toBe(7);
+    });
+
+    it('should exclude the disability years from the contributory period', () => {
+        const profile = { ...profileWithGaps, disabilityYears: [1980, 1981, 1982] };
+        const pension = getRetirementPension(CPP, profile);
+
+        expect(pension.contributoryYears).toBe(39);
+        expect(pension.base).toBeCloseTo(((MPEA * 32) / 33) * 0.25, 6);
+    });
+
+    it('should adjust the earnings with the YMPE of each year', () => {
+        const profile = { birthDate, requestDate: new Date('2025-01-01'), earnings: { 2000: 18800 } };
+        const pension = getRetirementPension(QPP, profile);
+
+        expect(pension.base).toBeCloseTo(((0.5 * MPEA) / 40) * 0.25, 6);
+    });
+
+    it('should apply the request date factor', () => {
+        const profile = { birthDate, requestDate: new Date('2020-01-01'), earnings: getEarnings(1978, 2019, 1000000) };
+        const pension = getRetirementPension(CPP, profile);
+
+        expect(pension.requestDateFactor).toBeCloseTo(1 - (60 * CPP.MONTHLY_DELAY.PENALTY), 6);
+        const pensionAtReferenceAge = pension.base + pension.firstEnhancement + pension.secondEnhancement;
+
+        expect(pension.total).toBeCloseTo(pensionAtReferenceAge * pension.requestDateFactor, 6);
+    });
+
+    it('should apply the QPP penalty of the pension amount', () => {
+        const profile = { birthDate, requestDate: new Date('2020-01-01'), earnings: getEarnings(2000, 2019, 20000) };
+        const pension = getRetirementPension(QPP, profile);
+        const pensionAtReferenceAge = pension.base + pension.firstEnhancement + pension.secondEnhancement;
+        const penalty = 0.005 + (0.001 * (pensionAtReferenceAge / QPP.MAX_PENSION.RETIREMENT));
+
+        expect(pension.requestDateFactor).toBeCloseTo(1 - (60 * penalty), 6);
+    });
+});
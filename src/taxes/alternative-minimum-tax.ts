@@ -0,0 +1,222 @@
+/*
+Sources
+    https://www.canada.ca/en/revenue-agency/services/tax/individuals/topics/about-your-tax-return/tax-return/
+        completing-a-tax-return/deductions-credits-expenses/line-41700-minimum-tax.html
+    QC: https://www.revenuquebec.ca/en/citizens/income-tax-return/completing-your-income-tax-return/
+        completing-your-return/calculating-your-income-tax/line-432/
+
+Notes
+    The adjusted taxable income includes 100% of the capital gains and the actual amount of the dividends (no gross-up).
+    The basic personal amount is fully allowed, only 50% of the other non-refundable tax credits are allowed.
+    Dividend tax credits are not allowed against the minimum tax.
+    The carry-forward credit expires after 7 years, the expiry is left to the caller.
+    Outside QC, the provincial minimum tax is computed on the provincial tax returns and is not modelled.
+    MINIMUM_TAX holds the current year, MINIMUM_TAX_BY_YEAR the published past years. Before 2024, the minimum tax
+    used the lowest rate, a $40,000 exemption, 80% of the capital gains and all the non-refundable tax credits.
+
+Revised
+    2026-10-19
+*/
+
+import { FEDERAL_CODE, FederalCode } from '../misc';
+import { getCapitalGainsTaxableAmount } from '../investments/non-registered-savings-plan';
+import { getByYear } from '../utils/collections';
+import { ELIGIBLE_DIVIDEND, NON_ELIGIBLE_DIVIDEND } from './dividend-credit';
+import {
+    getFederalBaseCredit,
+    getFederalBaseTaxAmount,
+    getProvincialBaseCredit,
+    getProvincialBaseTaxAmount,
+} from './income-tax';
+import { getPublishedAmountIndexationFactor } from './indexation';
+
+export type MinimumTaxCode = FederalCode | 'QC';
+
+export interface MinimumTaxRate {
+    EXEMPTION: number;
+    RATE: number;
+    CAPITAL_GAINS_INCLUSION_RATE: number;
+    TAX_CREDITS_ALLOWED_RATE: number;
+}
+
+export type MinimumTaxRates = { [key in MinimumTaxCode]: MinimumTaxRate };
+
+// Year of the amounts of MINIMUM_TAX
+const MINIMUM_TAX_YEAR = 2025;
+
+export const MINIMUM_TAX: MinimumTaxRates = {
+    CA: {
+        EXEMPTION: 177882,
+        RATE: 0.205,
+        CAPITAL_GAINS_INCLUSION_RATE: 1,
+        TAX_CREDITS_ALLOWED_RATE: 0.5,
+    },
+    QC: {
+        EXEMPTION: 175000,
+        RATE: 0.19,
+        CAPITAL_GAINS_INCLUSION_RATE: 1,
+        TAX_CREDITS_ALLOWED_RATE: 0.5,
+    },
+};
+
+export const MINIMUM_TAX_BY_YEAR: { [year: number]: MinimumTaxRates } = {
+    2023: {
+        CA: {
+            EXEMPTION: 40000,
+            RATE: 0.15,
+            CAPITAL_GAINS_INCLUSION_RATE: 0.8,
+            TAX_CREDITS_ALLOWED_RATE: 1,
+        },
+        QC: {
+            EXEMPTION: 40000,
+            RATE: 0.15,
+            CAPITAL_GAINS_INCLUSION_RATE: 0.8,
+            TAX_CREDITS_ALLOWED_RATE: 1,
+        },
+    },
+    2024: {
+        CA: {
+            EXEMPTION: 173205,
+            RATE: 0.205,
+            CAPITAL_GAINS_INCLUSION_RATE: 1,
+            TAX_CREDITS_ALLOWED_RATE: 0.5,
+        },
+        QC: {
+            EXEMPTION: 175000,
+            RATE: 0.19,
+            CAPITAL_GAINS_INCLUSION_RATE: 1,
+            TAX_CREDITS_ALLOWED_RATE: 0.5,
+        },
+    },
+};
+
+export function getMinimumTaxRate(code: MinimumTaxCode, taxYear?: number): MinimumTaxRate {
+    return getByYear(MINIMUM_TAX_BY_YEAR, MINIMUM_TAX, taxYear)[code];
+}
+
+export interface MinimumTaxProfile {
+    // Taxable income other than capital gains and dividends
+    ordinaryIncome: number;
+    // Total realized capital gains, before the inclusion rate
+    capitalGains?: number;
+    // Actual amount of the dividends, before the gross-up
+    eligibleDividends?: number;
+    nonEligibleDividends?: number;
+    // Non-refundable tax credits other than the basic personal amount, e.g. getTaxCredits().total
+    taxCredits?: number;
+    // Minimum tax credit carried forward from previous years
+    carryForward?: number;
+}
+
+export interface MinimumTax {
+    taxableIncome: number;
+    adjustedTaxableIncome: number;
+    regularTax: number;
+    minimumTax: number;
+    // Additional tax payable because of the minimum tax
+    payable: number;
+    // Part of the carry-forward applied against the regular tax of the year
+    carryForwardApplied: number;
+    carryForward: number;
+}
+
+function getBaseTaxAmount(
+    code: MinimumTaxCode,
+    income: number,
+    inflationRate: number,
+    yearsToInflate: number,
+    taxYear?: number,
+): number {
+    return code === FEDERAL_CODE
+        ? getFederalBaseTaxAmount(income, inflationRate, yearsToInflate, taxYear)
+        : getProvincialBaseTaxAmount(code, income, inflationRate, yearsToInflate, taxYear);
+}
+
+function getBaseCredit(
+    code: MinimumTaxCode,
+    income: number,
+    inflationRate: number,
+    yearsToInflate: number,
+    taxYear?: number,
+): number {
+    return code === FEDERAL_CODE
+        ? getFederalBaseCredit(inflationRate, yearsToInflate, taxYear, income)
+        : getProvincialBaseCredit(code, inflationRate, yearsToInflate, taxYear);
+}
+
+export function getAdjustedTaxableIncome(code: MinimumTaxCode, profile: MinimumTaxProfile, taxYear?: number): number {
+    const { ordinaryIncome, capitalGains = 0, eligibleDividends = 0, nonEligibleDividends = 0 } = profile;
+    return ordinaryIncome
+        + (capitalGains * getMinimumTaxRate(code, taxYear).CAPITAL_GAINS_INCLUSION_RATE)
+        + eligibleDividends
+        + nonEligibleDividends;
+}
+
+export function getMinimumTax(
+    code: MinimumTaxCode,
+    profile: MinimumTaxProfile,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): MinimumTax {
+    const { EXEMPTION, RATE, TAX_CREDITS_ALLOWED_RATE } = getMinimumTaxRate(code, taxYear);
+    const { eligibleDividends = 0, nonEligibleDividends = 0, taxCredits = 0, carryForward = 0 } = profile;
+
+    const grossedUpEligibleDividends = eligibleDividends * ELIGIBLE_DIVIDEND.GROSS_UP;
+    const grossedUpNonEligibleDividends = nonEligibleDividends * NON_ELIGIBLE_DIVIDEND.GROSS_UP;
+    const taxableIncome = profile.ordinaryIncome
+        + getCapitalGainsTaxableAmount(profile.capitalGains ?? 0)
+        + grossedUpEligibleDividends
+        + grossedUpNonEligibleDividends;
+    const dividendTaxCredits = (grossedUpEligibleDividends * ELIGIBLE_DIVIDEND[code])
+        + (grossedUpNonEligibleDividends * NON_ELIGIBLE_DIVIDEND[code]);
+    const baseCredit = getBaseCredit(code, taxableIncome, inflationRate, yearsToInflate, taxYear);
+    const regularTax = Math.max(
+        getBaseTaxAmount(code, taxableIncome, inflationRate, yearsToInflate, taxYear)
+            - baseCredit
+            - taxCredits
+            - dividendTaxCredits,
+        0,
+    );
+
+    const adjustedTaxableIncome = getAdjustedTaxableIncome(code, profile, taxYear);
+    const exemption = EXEMPTION
+        * getPublishedAmountIndexationFactor(code, inflationRate, yearsToInflate, MINIMUM_TAX_YEAR, taxYear);
+    const minimumTax = Math.max(
+        (Math.max(adjustedTaxableIncome - exemption, 0) * RATE)
+            - baseCredit
+            - (taxCredits * TAX_CREDITS_ALLOWED_RATE),
+        0,
+    );
+
+    const payable = Math.max(minimumTax - regularTax, 0);
+    const carryForwardApplied = Math.min(carryForward, Math.max(regularTax - minimumTax, 0));
+
+    return {
+        taxableIncome,
+        adjustedTaxableIncome,
+        regularTax,
+        minimumTax,
+        payable,
+        carryForwardApplied,
+        carryForward: carryForward - carryForwardApplied + payable,
+    };
+}
+
+export function getFederalMinimumTax(
+    profile: MinimumTaxProfile,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): MinimumTax {
+    return getMinimumTax(FEDERAL_CODE, profile, inflationRate, yearsToInflate, taxYear);
+}
+
+export function getQuebecMinimumTax(
+    profile: MinimumTaxProfile,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): MinimumTax {
+    return getMinimumTax('QC', profile, inflationRate, yearsToInflate, taxYear);
+}
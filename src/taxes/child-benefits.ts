@@ -0,0 +1,290 @@
+/*
+Sources
+    CA: https://www.canada.ca/en/revenue-agency/services/child-family-benefits/canada-child-benefit-overview/
+        canada-child-benefit-we-calculate-your-ccb.html
+    CA: https://www.canada.ca/en/revenue-agency/services/child-family-benefits/child-disability-benefit.html
+    QC: https://www.retraitequebec.gouv.qc.ca/en/programmes/allocation-famille/Pages/allocation-famille.aspx
+    ON: https://www.ontario.ca/page/ontario-child-benefit
+    BC: https://www2.gov.bc.ca/gov/content/family-social-supports/affordability/family-benefit
+    AB: https://www.alberta.ca/alberta-child-and-family-benefit
+
+Notes
+    Annual amounts of the July 2025 to June 2026 benefit year, based on the adjusted family net income (AFNI) of 2024.
+    The CCB is reduced in two tiers, at rates depending on the number of children. The Child Disability Benefit is
+    only reduced in the second tier, at rates depending on the number of disabled children.
+    The provincial benefits are reduced down to their minimum amounts, then from a second threshold when there is
+    one (BC). The amounts of the children after the last one listed are the same as the last one.
+    The ACFB working component is phased in with the family employment income.
+
+Revised
+    2026-10-19
+*/
+
+import { ByProvince, ProvinceCode } from '../misc';
+
+const MAX_CHILD_AGE = 17;
+
+export interface ChildBenefitFamily {
+    // Adjusted family net income (AFNI)
+    familyNetIncome: number;
+    childrenAges: number[];
+    // Children eligible for the disability tax credit
+    disabledChildren?: number;
+    singleParent?: boolean;
+    familyEmploymentIncome?: number;
+}
+
+export interface ChildBenefit {
+    CODE: string;
+    getBenefit(family: ChildBenefitFamily): number;
+}
+
+export interface ChildBenefits {
+    lines: { [code: string]: number };
+    federal: number;
+    provincial: number;
+    total: number;
+}
+
+export interface PhaseOutStep {
+    THRESHOLD: number;
+    // Reduction rate by number of children, the last one for more children
+    REDUCTION_RATES: number[];
+}
+
+export interface FederalChildBenefitConfig {
+    CODE: string;
+    UNDER_6_AMOUNT: number;
+    FROM_6_TO_17_AMOUNT: number;
+    DISABLED_CHILDREN_ONLY: boolean;
+    PHASE_OUT: PhaseOutStep[];
+}
+
+export interface SingleParentSupplement {
+    MAX_AMOUNT: number;
+    MIN_AMOUNT: number;
+    THRESHOLD?: number;
+}
+
+export interface IncomeTestedChildBenefitConfig {
+    CODE: string;
+    // Amounts by child rank, the last one for the next children
+    MAX_AMOUNTS: number[];
+    MIN_AMOUNTS: number[];
+    SINGLE_PARENT?: SingleParentSupplement;
+    THRESHOLD: number;
+    REDUCTION_RATE: number;
+    // The minimum amounts are reduced from this income
+    MIN_AMOUNTS_THRESHOLD?: number;
+}
+
+export interface WorkingChildBenefitConfig {
+    CODE: string;
+    MAX_AMOUNTS: number[];
+    PHASE_IN_THRESHOLD: number;
+    PHASE_IN_RATE: number;
+    THRESHOLD: number;
+    REDUCTION_RATE: number;
+}
+
+function getEligibleChildrenAges(family: ChildBenefitFamily): number[] {
+    return family.childrenAges.filter((age) => age >= 0 && age <= MAX_CHILD_AGE);
+}
+
+function getByCount(values: number[], count: number): number {
+    return values[Math.min(count, values.length) - 1] ?? 0;
+}
+
+function getAmountsByRank(amounts: number[], children: number): number {
+    return Array.from({ length: children }, (_, index) => amounts[Math.min(index, amounts.length - 1)])
+        .reduce((previous, amount) => previous + amount, 0);
+}
+
+export function initializeFederalChildBenefit(config: FederalChildBenefitConfig): ChildBenefit {
+    const { CODE, UNDER_6_AMOUNT, FROM_6_TO_17_AMOUNT, DISABLED_CHILDREN_ONLY, PHASE_OUT } = config;
+
+    const getBenefit = (family: ChildBenefitFamily): number => {
+        const childrenAges = getEligibleChildrenAges(family);
+        const children = DISABLED_CHILDREN_ONLY
+            ? Math.min(family.disabledChildren ?? 0, childrenAges.length)
+            : childrenAges.length;
+        if (children === 0) {
+            return 0;
+        }
+        const amount = DISABLED_CHILDREN_ONLY
+            ? children * UNDER_6_AMOUNT
+            : childrenAges.reduce((previous, age) => previous + (age < 6 ? UNDER_6_AMOUNT : FROM_6_TO_17_AMOUNT), 0);
+        const reduction = PHASE_OUT.reduce((previous, step, index) => {
+            const nextThreshold = PHASE_OUT[index + 1]?.THRESHOLD ?? Infinity;
+            const income = Math.min(family.familyNetIncome, nextThreshold) - step.THRESHOLD;
+            return previous + (Math.max(income, 0) * getByCount(step.REDUCTION_RATES, children));
+        }, 0);
+        return Math.max(amount - reduction, 0);
+    };
+
+    return { CODE, getBenefit };
+}
+
+export function initializeIncomeTestedChildBenefit(config: IncomeTestedChildBenefitConfig): ChildBenefit {
+    const { CODE, MAX_AMOUNTS, MIN_AMOUNTS, SINGLE_PARENT, THRESHOLD, REDUCTION_RATE, MIN_AMOUNTS_THRESHOLD } = config;
+
+    const getBenefit = (family: ChildBenefitFamily): number => {
+        const children = getEligibleChildrenAges(family).length;
+        if (children === 0) {
+            return 0;
+        }
+        const singleParent = family.singleParent ? SINGLE_PARENT : undefined;
+        const maxAmount = getAmountsByRank(MAX_AMOUNTS, children) + (singleParent?.MAX_AMOUNT ?? 0);
+        const minAmount = getAmountsByRank(MIN_AMOUNTS, children) + (singleParent?.MIN_AMOUNT ?? 0);
+        const threshold = singleParent?.THRESHOLD ?? THRESHOLD;
+        const reduction = Math.max(family.familyNetIncome - threshold, 0) * REDUCTION_RATE;
+        const amount = Math.max(maxAmount - reduction, minAmount);
+        const minAmountReduction = MIN_AMOUNTS_THRESHOLD === undefined
+            ? 0
+            : Math.max(family.familyNetIncome - MIN_AMOUNTS_THRESHOLD, 0) * REDUCTION_RATE;
+        return Math.max(amount - minAmountReduction, 0);
+    };
+
+    return { CODE, getBenefit };
+}
+
+export function initializeWorkingChildBenefit(config: WorkingChildBenefitConfig): ChildBenefit {
+    const { CODE, MAX_AMOUNTS, PHASE_IN_THRESHOLD, PHASE_IN_RATE, THRESHOLD, REDUCTION_RATE } = config;
+
+    const getBenefit = (family: ChildBenefitFamily): number => {
+        const children = getEligibleChildrenAges(family).length;
+        const employmentIncome = family.familyEmploymentIncome ?? 0;
+        const phasedIn = Math.max(employmentIncome - PHASE_IN_THRESHOLD, 0) * PHASE_IN_RATE;
+        const amount = Math.min(getAmountsByRank(MAX_AMOUNTS, children), phasedIn);
+        const reduction = Math.max(family.familyNetIncome - THRESHOLD, 0) * REDUCTION_RATE;
+        return Math.max(amount - reduction, 0);
+    };
+
+    return { CODE, getBenefit };
+}
+
+export const CANADA_CHILD_BENEFIT = initializeFederalChildBenefit({
+    CODE: 'CANADA_CHILD_BENEFIT',
+    UNDER_6_AMOUNT: 7997,
+    FROM_6_TO_17_AMOUNT: 6748,
+    DISABLED_CHILDREN_ONLY: false,
+    PHASE_OUT: [{
+        THRESHOLD: 37487,
+        REDUCTION_RATES: [0.07, 0.135, 0.19, 0.23],
+    }, {
+        THRESHOLD: 81222,
+        REDUCTION_RATES: [0.032, 0.057, 0.08, 0.095],
+    }],
+});
+
+export const CHILD_DISABILITY_BENEFIT = initializeFederalChildBenefit({
+    CODE: 'CHILD_DISABILITY_BENEFIT',
+    UNDER_6_AMOUNT: 3411,
+    FROM_6_TO_17_AMOUNT: 3411,
+    DISABLED_CHILDREN_ONLY: true,
+    PHASE_OUT: [{
+        THRESHOLD: 81222,
+        REDUCTION_RATES: [0.032, 0.057],
+    }],
+});
+
+export const QC_FAMILY_ALLOWANCE = initializeIncomeTestedChildBenefit({
+    CODE: 'QC_FAMILY_ALLOWANCE',
+    MAX_AMOUNTS: [2923],
+    MIN_AMOUNTS: [1163],
+    SINGLE_PARENT: {
+        MAX_AMOUNT: 1026,
+        MIN_AMOUNT: 410,
+        THRESHOLD: 44546,
+    },
+    THRESHOLD: 61150,
+    REDUCTION_RATE: 0.04,
+});
+
+export const ONTARIO_CHILD_BENEFIT = initializeIncomeTestedChildBenefit({
+    CODE: 'ONTARIO_CHILD_BENEFIT',
+    MAX_AMOUNTS: [1727],
+    MIN_AMOUNTS: [0],
+    THRESHOLD: 26364,
+    REDUCTION_RATE: 0.08,
+});
+
+export const BC_FAMILY_BENEFIT = initializeIncomeTestedChildBenefit({
+    CODE: 'BC_FAMILY_BENEFIT',
+    MAX_AMOUNTS: [1750, 1100, 900],
+    MIN_AMOUNTS: [625, 600, 575],
+    SINGLE_PARENT: {
+        MAX_AMOUNT: 500,
+        MIN_AMOUNT: 0,
+    },
+    THRESHOLD: 35902,
+    REDUCTION_RATE: 0.04,
+    MIN_AMOUNTS_THRESHOLD: 114887,
+});
+
+// Base component, for up to four children
+export const AB_CHILD_AND_FAMILY_BENEFIT = initializeIncomeTestedChildBenefit({
+    CODE: 'AB_CHILD_AND_FAMILY_BENEFIT',
+    MAX_AMOUNTS: [1499, 750, 750, 750, 0],
+    MIN_AMOUNTS: [0],
+    THRESHOLD: 27565,
+    REDUCTION_RATE: 0.05,
+});
+
+// Working component, for up to four children
+export const AB_CHILD_AND_FAMILY_BENEFIT_WORKING = initializeWorkingChildBenefit({
+    CODE: 'AB_CHILD_AND_FAMILY_BENEFIT_WORKING',
+    MAX_AMOUNTS: [767, 350, 107, 39, 0],
+    PHASE_IN_THRESHOLD: 2760,
+    PHASE_IN_RATE: 0.15,
+    THRESHOLD: 46191,
+    REDUCTION_RATE: 0.15,
+});
+
+export const FEDERAL_CHILD_BENEFITS: ChildBenefit[] = [CANADA_CHILD_BENEFIT, CHILD_DISABILITY_BENEFIT];
+
+export const PROVINCIAL_CHILD_BENEFITS: ByProvince<ChildBenefit[]> = {
+    AB: [AB_CHILD_AND_FAMILY_BENEFIT, AB_CHILD_AND_FAMILY_BENEFIT_WORKING],
+    BC: [BC_FAMILY_BENEFIT],
+    MB: [],
+    NB: [],
+    NL: [],
+    NS: [],
+    NT: [],
+    NU: [],
+    ON: [ONTARIO_CHILD_BENEFIT],
+    PE: [],
+    QC: [QC_FAMILY_ALLOWANCE],
+    SK: [],
+    YT: [],
+};
+
+function getBenefitLines(benefits: ChildBenefit[], family: ChildBenefitFamily): { [code: string]: number } {
+    return benefits.reduce((previous, benefit) => ({ ...previous, [benefit.CODE]: benefit.getBenefit(family) }), {});
+}
+
+function getLinesTotal(lines: { [code: string]: number }): number {
+    return Object.values(lines).reduce((previous, amount) => previous + amount, 0);
+}
+
+export function getFederalChildBenefits(family: ChildBenefitFamily): number {
+    return getLinesTotal(getBenefitLines(FEDERAL_CHILD_BENEFITS, family));
+}
+
+export function getProvincialChildBenefits(province: ProvinceCode, family: ChildBenefitFamily): number {
+    return getLinesTotal(getBenefitLines(PROVINCIAL_CHILD_BENEFITS[province], family));
+}
+
+export function getChildBenefits(province: ProvinceCode, family: ChildBenefitFamily): ChildBenefits {
+    const federalLines = getBenefitLines(FEDERAL_CHILD_BENEFITS, family);
+    const provincialLines = getBenefitLines(PROVINCIAL_CHILD_BENEFITS[province], family);
+    const federal = getLinesTotal(federalLines);
+    const provincial = getLinesTotal(provincialLines);
+
+    return {
+        lines: { ...federalLines, ...provincialLines },
+        federal,
+        provincial,
+        total: federal + provincial,
+    };
+}
@@ -1,14 +1,38 @@
 /*
 Sources
     https://www.canada.ca/en/employment-social-development/programs/ei/ei-list/ei-employers/premium-reduction-program/2025-maximum-insurable-earnings.html
+    https://www.canada.ca/en/revenue-agency/services/tax/businesses/topics/payroll/payroll-deductions-contributions/
+        employment-insurance-ei/ei-premium-rates-maximums.html
+    https://www.canada.ca/en/services/benefits/ei/ei-self-employed-workers.html
+    https://www.canada.ca/en/services/benefits/ei/ei-regular-benefit/benefit-amount.html
+    https://www.canada.ca/en/services/benefits/ei/ei-maternity-parental.html
+    https://www.canada.ca/en/services/benefits/ei/ei-sickness.html
+    https://www.canada.ca/en/revenue-agency/services/tax/individuals/topics/about-your-tax-return/tax-return/
+        completing-a-tax-return/deductions-credits-expenses/line-23500-social-benefits-repayment.html
 
 Notes
     The URL is based on a specific year.
+    EI holds the current year, EI_BY_YEAR the published past years.
+    The employer pays EMPLOYER_RATE_FACTOR times the employee premium. The employee premiums are refunded on the tax
+    return when the insurable earnings of the year are not over REFUND_THRESHOLD, not the employer premiums.
+    Self-employed workers who opt in pay the employee premium on their self-employment earnings, without an employer
+    share, for the special benefits only.
+    The weekly benefit is a rate of the average of the best weeks of insurable earnings of the qualifying period,
+    each week capped at MAX_INSURABLE_EARNINGS / 52. The number of best weeks depends on the regional unemployment
+    rate. The number of weeks of regular benefits also depends on the insurable hours, it is given by the claimant.
+    The waiting week is served once per claim, not again for parental benefits following maternity benefits.
+    Only regular benefits are repaid by high earners who received regular benefits in the last 10 years.
 
 Revised
-    2024-12-24
+    2026-10-19
  */
 
+import { ProvinceCode } from '../misc';
+import { getByYear } from '../utils/collections';
+import { clamp } from '../utils/math';
+
+const WEEKS_PER_YEAR = 52;
+
 export interface PremiumRate {
     CA: number;
     QC: number;
@@ -19,6 +43,65 @@ export interface EmploymentInsurance {
     PREMIUM_RATES: PremiumRate;
 }
 
+export interface PremiumRules {
+    EMPLOYER_RATE_FACTOR: number;
+    REFUND_THRESHOLD: number;
+}
+
+export interface EiPremiums {
+    insurableEarnings: number;
+    employee: number;
+    employer: number;
+    // Employee premiums refunded on the tax return
+    refund: number;
+}
+
+export type EiBenefitType = 'REGULAR' | 'MATERNITY' | 'STANDARD_PARENTAL' | 'EXTENDED_PARENTAL' | 'SICKNESS';
+
+export interface EiBenefitRule {
+    RATE: number;
+    MAX_WEEKS: number;
+}
+
+export interface BestWeeks {
+    // Up to and including this regional unemployment rate
+    UNEMPLOYMENT_RATE: number;
+    WEEKS: number;
+}
+
+export interface BenefitRepayment {
+    RATE: number;
+    // Net income threshold, as a ratio of MAX_INSURABLE_EARNINGS
+    THRESHOLD_RATE: number;
+}
+
+export interface EmploymentInsuranceBenefits {
+    BENEFITS: { [key in EiBenefitType]: EiBenefitRule };
+    BEST_WEEKS: BestWeeks[];
+    WAITING_WEEKS: number;
+    REPAYMENT: BenefitRepayment;
+}
+
+export interface EiClaim {
+    type: EiBenefitType;
+    // Weekly insurable earnings of the qualifying period
+    weeklyEarnings: number[];
+    // Regional unemployment rate
+    unemploymentRate: number;
+    // Weeks of benefits claimed, including the waiting week, up to MAX_WEEKS of benefits
+    weeks?: number;
+    // No waiting week when already served on the claim, e.g. parental benefits following maternity benefits
+    waitingWeekServed?: boolean;
+}
+
+export interface EiBenefits {
+    averageWeeklyEarnings: number;
+    weeklyBenefit: number;
+    waitingWeeks: number;
+    paidWeeks: number;
+    total: number;
+}
+
 export const EI: EmploymentInsurance = {
     MAX_INSURABLE_EARNINGS: 65700,
     PREMIUM_RATES: {
@@ -26,3 +109,170 @@ export const EI: EmploymentInsurance = {
         QC: 0.0131,
     },
 };
+
+export const EI_PREMIUMS: PremiumRules = {
+    EMPLOYER_RATE_FACTOR: 1.4,
+    REFUND_THRESHOLD: 2000,
+};
+
+export const EI_BY_YEAR: { [year: number]: EmploymentInsurance } = {
+    2018: {
+        MAX_INSURABLE_EARNINGS: 51700,
+        PREMIUM_RATES: {
+            CA: 0.0166,
+            QC: 0.013,
+        },
+    },
+    2019: {
+        MAX_INSURABLE_EARNINGS: 53100,
+        PREMIUM_RATES: {
+            CA: 0.0162,
+            QC: 0.0125,
+        },
+    },
+    2020: {
+        MAX_INSURABLE_EARNINGS: 54200,
+        PREMIUM_RATES: {
+            CA: 0.0158,
+            QC: 0.012,
+        },
+    },
+    2021: {
+        MAX_INSURABLE_EARNINGS: 56300,
+        PREMIUM_RATES: {
+            CA: 0.0158,
+            QC: 0.0118,
+        },
+    },
+    2022: {
+        MAX_INSURABLE_EARNINGS: 60300,
+        PREMIUM_RATES: {
+            CA: 0.0158,
+            QC: 0.012,
+        },
+    },
+    2023: {
+        MAX_INSURABLE_EARNINGS: 61500,
+        PREMIUM_RATES: {
+            CA: 0.0163,
+            QC: 0.0127,
+        },
+    },
+    2024: {
+        MAX_INSURABLE_EARNINGS: 63200,
+        PREMIUM_RATES: {
+            CA: 0.0166,
+            QC: 0.0132,
+        },
+    },
+};
+
+export function getEmploymentInsurance(year?: number): EmploymentInsurance {
+    return getByYear(EI_BY_YEAR, EI, year);
+}
+
+export function getEiPremiumRate(province: ProvinceCode, year?: number): number {
+    const { PREMIUM_RATES } = getEmploymentInsurance(year);
+    return province === 'QC' ? PREMIUM_RATES.QC : PREMIUM_RATES.CA;
+}
+
+export function getEiPremiums(province: ProvinceCode, earnings: number, year?: number): EiPremiums {
+    const insurableEarnings = clamp(earnings, 0, getEmploymentInsurance(year).MAX_INSURABLE_EARNINGS);
+    const employee = insurableEarnings * getEiPremiumRate(province, year);
+    return {
+        insurableEarnings,
+        employee,
+        employer: employee * EI_PREMIUMS.EMPLOYER_RATE_FACTOR,
+        refund: insurableEarnings <= EI_PREMIUMS.REFUND_THRESHOLD ? employee : 0,
+    };
+}
+
+// Only for self-employed workers who opted in
+export function getSelfEmployedEiPremium(province: ProvinceCode, earnings: number, year?: number): number {
+    return getEiPremiums(province, earnings, year).employee;
+}
+
+export const EI_BENEFITS: EmploymentInsuranceBenefits = {
+    BENEFITS: {
+        REGULAR: { RATE: 0.55, MAX_WEEKS: 45 },
+        MATERNITY: { RATE: 0.55, MAX_WEEKS: 15 },
+        STANDARD_PARENTAL: { RATE: 0.55, MAX_WEEKS: 35 },
+        EXTENDED_PARENTAL: { RATE: 0.33, MAX_WEEKS: 61 },
+        SICKNESS: { RATE: 0.55, MAX_WEEKS: 26 },
+    },
+    BEST_WEEKS: [
+        { UNEMPLOYMENT_RATE: 0.06, WEEKS: 22 },
+        { UNEMPLOYMENT_RATE: 0.07, WEEKS: 21 },
+        { UNEMPLOYMENT_RATE: 0.08, WEEKS: 20 },
+        { UNEMPLOYMENT_RATE: 0.09, WEEKS: 19 },
+        { UNEMPLOYMENT_RATE: 0.10, WEEKS: 18 },
+        { UNEMPLOYMENT_RATE: 0.11, WEEKS: 17 },
+        { UNEMPLOYMENT_RATE: 0.12, WEEKS: 16 },
+        { UNEMPLOYMENT_RATE: 0.13, WEEKS: 15 },
+        { UNEMPLOYMENT_RATE: 1, WEEKS: 14 },
+    ],
+    WAITING_WEEKS: 1,
+    REPAYMENT: {
+        RATE: 0.3,
+        THRESHOLD_RATE: 1.25,
+    },
+};
+
+export function getBestWeeksDivisor(unemploymentRate: number): number {
+    const { BEST_WEEKS } = EI_BENEFITS;
+    const bestWeeks = BEST_WEEKS.find((step) => unemploymentRate <= step.UNEMPLOYMENT_RATE);
+    return (bestWeeks ?? BEST_WEEKS[BEST_WEEKS.length - 1]).WEEKS;
+}
+
+export function getMaxWeeklyInsurableEarnings(year?: number): number {
+    return getEmploymentInsurance(year).MAX_INSURABLE_EARNINGS / WEEKS_PER_YEAR;
+}
+
+export function getAverageWeeklyEarnings(weeklyEarnings: number[], unemploymentRate: number, year?: number): number {
+    const divisor = getBestWeeksDivisor(unemploymentRate);
+    const maxWeeklyEarnings = getMaxWeeklyInsurableEarnings(year);
+    const bestWeeks = weeklyEarnings
+        .map((earnings) => clamp(earnings, 0, maxWeeklyEarnings))
+        .sort((a, b) => b - a)
+        .slice(0, divisor);
+    // Missing weeks count as weeks without earnings
+    return bestWeeks.reduce((previous, earnings) => previous + earnings, 0) / divisor;
+}
+
+export function getWeeklyBenefit(type: EiBenefitType, averageWeeklyEarnings: number, year?: number): number {
+    const averageEarnings = clamp(averageWeeklyEarnings, 0, getMaxWeeklyInsurableEarnings(year));
+    return averageEarnings * EI_BENEFITS.BENEFITS[type].RATE;
+}
+
+export function getEiBenefits(claim: EiClaim, year?: number): EiBenefits {
+    const { MAX_WEEKS } = EI_BENEFITS.BENEFITS[claim.type];
+    const averageWeeklyEarnings = getAverageWeeklyEarnings(claim.weeklyEarnings, claim.unemploymentRate, year);
+    const weeklyBenefit = getWeeklyBenefit(claim.type, averageWeeklyEarnings, year);
+    const maxWaitingWeeks = claim.waitingWeekServed ? 0 : EI_BENEFITS.WAITING_WEEKS;
+    const weeks = Math.max(claim.weeks ?? MAX_WEEKS + maxWaitingWeeks, 0);
+    const waitingWeeks = Math.min(weeks, maxWaitingWeeks);
+    const paidWeeks = Math.min(weeks - waitingWeeks, MAX_WEEKS);
+
+    return {
+        averageWeeklyEarnings,
+        weeklyBenefit,
+        waitingWeeks,
+        paidWeeks,
+        total: weeklyBenefit * paidWeeks,
+    };
+}
+
+// Only when more than one week of regular benefits was received in the 10 previous taxation years
+export function getEiBenefitRepayment(
+    netIncome: number,
+    regularBenefits: number,
+    year?: number,
+    previousRegularBenefits = true,
+): number {
+    if (!previousRegularBenefits) {
+        return 0;
+    }
+    const { RATE, THRESHOLD_RATE } = EI_BENEFITS.REPAYMENT;
+    const threshold = getEmploymentInsurance(year).MAX_INSURABLE_EARNINGS * THRESHOLD_RATE;
+    return RATE * clamp(netIncome - threshold, 0, Math.max(regularBenefits, 0));
+}
@@ -2,36 +2,94 @@
 Sources
     http://www.taxtips.ca/marginaltaxrates.htm
     Abattement QC: http://www.cra-arc.gc.ca/tx/ndvdls/tpcs/ncm-tx/rtrn/cmpltng/ddctns/lns409-485/440-fra.html
+    Prior years: https://www.taxtips.ca/marginal-tax-rates-in-canada.htm
+
+Notes
+    Functions accept an optional tax year. Without one, the current year's published brackets are used when
+    available from 2025, otherwise TAX_BRACKETS (the 2025 brackets, the base for projections). Years before the
+    first published year are not supported, years after the latest one index its amounts (see indexation).
+    Projected bracket limits and credit amounts are indexed with the factors of their jurisdiction (see indexation).
 
 Revised
-    2024-12-24
+    2026-10-19
 */
 import { FEDERAL_CODE, FederalCode, ProvinceCode } from '../misc';
-import { maxBy, now, roundToPrecision } from '../utils';
+import { clamp, inflate, maxBy, now, roundToPrecision } from '../utils';
+import { getIndexationFactor } from './indexation';
+import {
+    BC_TAX_REDUCTION,
+    initializeIncomeTestedTaxReduction,
+    initializeOntarioTaxReduction,
+    MB_FAMILY_TAX_BENEFIT,
+    NB_LOW_INCOME_TAX_REDUCTION,
+    NO_HOUSEHOLD,
+    NS_LOW_INCOME_TAX_REDUCTION,
+    ON_TAX_REDUCTION,
+    SK_LOW_INCOME_CREDIT,
+    TaxReduction,
+    TaxReductionHousehold,
+} from './provincial-tax-reductions';
+
+export interface RateSegment {
+    EFFECTIVE_DATE: string;
+    RATE: number;
+}
 
 export interface Rate {
     FROM: number;
     TO: number;
     RATE: number;
+    // Rates in effect during the year when the rate changes mid-year, the first one starting on January 1st
+    SEGMENTS?: RateSegment[];
+}
+
+// Linear reduction of the base amount down to its minimum for incomes between FROM and TO
+export interface BaseTaxCreditReduction {
+    MIN_BASE_TAX_CREDIT: number;
+    FROM: number;
+    TO: number;
 }
 
 export interface TaxBracket {
     ABATEMENT: number;
     TAX_CREDIT_RATE: number;
+    TAX_CREDIT_RATE_SEGMENTS?: RateSegment[];
     BASE_TAX_CREDIT: number;
+    BASE_TAX_CREDIT_REDUCTION?: BaseTaxCreditReduction;
+    // Low-income reduction of the provincial tax
+    TAX_REDUCTION?: TaxReduction;
     RATES: Rate[];
     SURTAX_RATES: Rate[];
 }
 
 export type TaxBrackets = { [key in ProvinceCode | FederalCode]: TaxBracket };
 
+export type TaxBracketsByYear = { [year: number]: TaxBrackets };
+
+/**
+ * @deprecated The 2025 mid-year change is carried by the segments of TAX_BRACKETS_BY_YEAR[2025], use getBlendedRate.
+ */
 export const CA_LOWEST_TAX_RATE_2025 = 0.145;
 
+// Lowest federal rate went from 15% to 14% on July 1st, 2025
+const CA_LOWEST_TAX_RATE_SEGMENTS_2025: RateSegment[] = [{
+    EFFECTIVE_DATE: '2025-01-01',
+    RATE: 0.15,
+}, {
+    EFFECTIVE_DATE: '2025-07-01',
+    RATE: 0.14,
+}];
+
 export const TAX_BRACKETS: TaxBrackets = {
     CA: {
         ABATEMENT: 0,
         TAX_CREDIT_RATE: 0.14,
         BASE_TAX_CREDIT: 16129,
+        BASE_TAX_CREDIT_REDUCTION: {
+            MIN_BASE_TAX_CREDIT: 14538,
+            FROM: 177882,
+            TO: 253414,
+        },
         RATES: [{
             FROM: 0,
             TO: 57375,
@@ -94,6 +152,7 @@ export const TAX_BRACKETS: TaxBrackets = {
         ABATEMENT: 0,
         TAX_CREDIT_RATE: 0.0506,
         BASE_TAX_CREDIT: 12932,
+        TAX_REDUCTION: BC_TAX_REDUCTION,
         RATES: [{
             FROM: 0,
             TO: 49279,
@@ -133,6 +192,7 @@ export const TAX_BRACKETS: TaxBrackets = {
         ABATEMENT: 0,
         TAX_CREDIT_RATE: 0.108,
         BASE_TAX_CREDIT: 15969,
+        TAX_REDUCTION: MB_FAMILY_TAX_BENEFIT,
         RATES: [{
             FROM: 0,
             TO: 47564,
@@ -156,6 +216,7 @@ export const TAX_BRACKETS: TaxBrackets = {
         ABATEMENT: 0,
         TAX_CREDIT_RATE: 0.094,
         BASE_TAX_CREDIT: 13396,
+        TAX_REDUCTION: NB_LOW_INCOME_TAX_REDUCTION,
         RATES: [{
             FROM: 0,
             TO: 51306,
@@ -226,6 +287,7 @@ export const TAX_BRACKETS: TaxBrackets = {
         ABATEMENT: 0,
         TAX_CREDIT_RATE: 0.0879,
         BASE_TAX_CREDIT: 8744,
+        TAX_REDUCTION: NS_LOW_INCOME_TAX_REDUCTION,
         RATES: [{
             FROM: 0,
             TO: 30507,
@@ -288,6 +350,7 @@ export const TAX_BRACKETS: TaxBrackets = {
         ABATEMENT: 0,
         TAX_CREDIT_RATE: 0.0505,
         BASE_TAX_CREDIT: 12747,
+        TAX_REDUCTION: ON_TAX_REDUCTION,
         RATES: [{
             FROM: 0,
             TO: 52886,
@@ -354,6 +417,7 @@ export const TAX_BRACKETS: TaxBrackets = {
         ABATEMENT: 0,
         TAX_CREDIT_RATE: 0.105,
         BASE_TAX_CREDIT: 18991,
+        TAX_REDUCTION: SK_LOW_INCOME_CREDIT,
         RATES: [{
             FROM: 0,
             TO: 53463,
@@ -464,65 +528,2711 @@ export const TAX_BRACKETS: TaxBrackets = {
     },
 };
 
-function inflate(amount: number, inflationRate: number, yearsToInflate: number): number {
-    return amount * ((1 + inflationRate) ** yearsToInflate);
+// Published brackets by tax year. TAX_BRACKETS remains the base used for projections.
+export const TAX_BRACKETS_BY_YEAR: TaxBracketsByYear = {
+    2020: {
+        CA: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.15,
+            BASE_TAX_CREDIT: 13229,
+            BASE_TAX_CREDIT_REDUCTION: {
+                MIN_BASE_TAX_CREDIT: 12298,
+                FROM: 150473,
+                TO: 214368,
+            },
+            RATES: [{
+                FROM: 0,
+                TO: 48535,
+                RATE: 0.15,
+            }, {
+                FROM: 48535,
+                TO: 97069,
+                RATE: 0.205,
+            }, {
+                FROM: 97069,
+                TO: 150473,
+                RATE: 0.26,
+            }, {
+                FROM: 150473,
+                TO: 214368,
+                RATE: 0.2932,
+            }, {
+                FROM: 214368,
+                TO: 999999999,
+                RATE: 0.33,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        AB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.10,
+            BASE_TAX_CREDIT: 19369,
+            RATES: [{
+                FROM: 0,
+                TO: 131220,
+                RATE: 0.10,
+            }, {
+                FROM: 131220,
+                TO: 157464,
+                RATE: 0.12,
+            }, {
+                FROM: 157464,
+                TO: 209952,
+                RATE: 0.13,
+            }, {
+                FROM: 209952,
+                TO: 314928,
+                RATE: 0.14,
+            }, {
+                FROM: 314928,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        BC: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0506,
+            BASE_TAX_CREDIT: 10949,
+            TAX_REDUCTION: initializeIncomeTestedTaxReduction({
+                BASE_AMOUNT: 476,
+                SPOUSE_AMOUNT: 0,
+                DEPENDANT_AMOUNT: 0,
+                MAX_DEPENDANTS: 0,
+                THRESHOLD: 21185,
+                REDUCTION_RATE: 0.0356,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 41725,
+                RATE: 0.0506,
+            }, {
+                FROM: 41725,
+                TO: 83451,
+                RATE: 0.077,
+            }, {
+                FROM: 83451,
+                TO: 95812,
+                RATE: 0.105,
+            }, {
+                FROM: 95812,
+                TO: 116344,
+                RATE: 0.1229,
+            }, {
+                FROM: 116344,
+                TO: 157748,
+                RATE: 0.147,
+            }, {
+                FROM: 157748,
+                TO: 220000,
+                RATE: 0.168,
+            }, {
+                FROM: 220000,
+                TO: 999999999,
+                RATE: 0.205,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        MB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.108,
+            BASE_TAX_CREDIT: 9838,
+            TAX_REDUCTION: MB_FAMILY_TAX_BENEFIT,
+            RATES: [{
+                FROM: 0,
+                TO: 33389,
+                RATE: 0.108,
+            }, {
+                FROM: 33389,
+                TO: 72164,
+                RATE: 0.1275,
+            }, {
+                FROM: 72164,
+                TO: 999999999,
+                RATE: 0.174,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0968,
+            BASE_TAX_CREDIT: 10459,
+            RATES: [{
+                FROM: 0,
+                TO: 43401,
+                RATE: 0.0968,
+            }, {
+                FROM: 43401,
+                TO: 86803,
+                RATE: 0.1482,
+            }, {
+                FROM: 86803,
+                TO: 141122,
+                RATE: 0.1652,
+            }, {
+                FROM: 141122,
+                TO: 160776,
+                RATE: 0.1784,
+            }, {
+                FROM: 160776,
+                TO: 999999999,
+                RATE: 0.203,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NL: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.087,
+            BASE_TAX_CREDIT: 9498,
+            RATES: [{
+                FROM: 0,
+                TO: 37929,
+                RATE: 0.087,
+            }, {
+                FROM: 37929,
+                TO: 75858,
+                RATE: 0.145,
+            }, {
+                FROM: 75858,
+                TO: 135432,
+                RATE: 0.158,
+            }, {
+                FROM: 135432,
+                TO: 189604,
+                RATE: 0.173,
+            }, {
+                FROM: 189604,
+                TO: 999999999,
+                RATE: 0.183,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NS: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0879,
+            BASE_TAX_CREDIT: 8481,
+            TAX_REDUCTION: NS_LOW_INCOME_TAX_REDUCTION,
+            RATES: [{
+                FROM: 0,
+                TO: 29590,
+                RATE: 0.0879,
+            }, {
+                FROM: 29590,
+                TO: 59180,
+                RATE: 0.1495,
+            }, {
+                FROM: 59180,
+                TO: 93000,
+                RATE: 0.1667,
+            }, {
+                FROM: 93000,
+                TO: 150000,
+                RATE: 0.175,
+            }, {
+                FROM: 150000,
+                TO: 999999999,
+                RATE: 0.21,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        PE: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.098,
+            BASE_TAX_CREDIT: 10500,
+            RATES: [{
+                FROM: 0,
+                TO: 31984,
+                RATE: 0.098,
+            }, {
+                FROM: 31984,
+                TO: 63969,
+                RATE: 0.138,
+            }, {
+                FROM: 63969,
+                TO: 999999999,
+                RATE: 0.167,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 12500,
+                RATE: 0,
+            }, {
+                FROM: 12500,
+                TO: 999999999,
+                RATE: 0.10,
+            }],
+        },
+        ON: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0505,
+            BASE_TAX_CREDIT: 10783,
+            TAX_REDUCTION: initializeOntarioTaxReduction({
+                BASIC_REDUCTION: 249,
+                DEPENDANT_REDUCTION: 460,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 44740,
+                RATE: 0.0505,
+            }, {
+                FROM: 44740,
+                TO: 89482,
+                RATE: 0.0915,
+            }, {
+                FROM: 89482,
+                TO: 150000,
+                RATE: 0.1116,
+            }, {
+                FROM: 150000,
+                TO: 220000,
+                RATE: 0.1216,
+            }, {
+                FROM: 220000,
+                TO: 999999999,
+                RATE: 0.1316,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 4830,
+                RATE: 0,
+            }, {
+                FROM: 4830,
+                TO: 6182,
+                RATE: 0.20,
+            }, {
+                FROM: 6182,
+                TO: 999999999,
+                RATE: 0.56, // 0.20 + 0.36
+            }],
+        },
+        QC: {
+            ABATEMENT: 0.165,
+            TAX_CREDIT_RATE: 0.15,
+            BASE_TAX_CREDIT: 15532,
+            RATES: [{
+                FROM: 0,
+                TO: 44545,
+                RATE: 0.15,
+            }, {
+                FROM: 44545,
+                TO: 89080,
+                RATE: 0.20,
+            }, {
+                FROM: 89080,
+                TO: 108390,
+                RATE: 0.24,
+            }, {
+                FROM: 108390,
+                TO: 999999999,
+                RATE: 0.2575,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        SK: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.105,
+            BASE_TAX_CREDIT: 16065,
+            RATES: [{
+                FROM: 0,
+                TO: 45225,
+                RATE: 0.105,
+            }, {
+                FROM: 45225,
+                TO: 129214,
+                RATE: 0.125,
+            }, {
+                FROM: 129214,
+                TO: 999999999,
+                RATE: 0.145,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.059,
+            BASE_TAX_CREDIT: 15093,
+            RATES: [{
+                FROM: 0,
+                TO: 43957,
+                RATE: 0.059,
+            }, {
+                FROM: 43957,
+                TO: 87916,
+                RATE: 0.086,
+            }, {
+                FROM: 87916,
+                TO: 142932,
+                RATE: 0.122,
+            }, {
+                FROM: 142932,
+                TO: 999999999,
+                RATE: 0.1405,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NU: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.04,
+            BASE_TAX_CREDIT: 16304,
+            RATES: [{
+                FROM: 0,
+                TO: 46277,
+                RATE: 0.04,
+            }, {
+                FROM: 46277,
+                TO: 92555,
+                RATE: 0.07,
+            }, {
+                FROM: 92555,
+                TO: 150473,
+                RATE: 0.09,
+            }, {
+                FROM: 150473,
+                TO: 999999999,
+                RATE: 0.115,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        YT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.064,
+            BASE_TAX_CREDIT: 13229,
+            RATES: [{
+                FROM: 0,
+                TO: 48535,
+                RATE: 0.064,
+            }, {
+                FROM: 48535,
+                TO: 97069,
+                RATE: 0.09,
+            }, {
+                FROM: 97069,
+                TO: 150473,
+                RATE: 0.109,
+            }, {
+                FROM: 150473,
+                TO: 500000,
+                RATE: 0.128,
+            }, {
+                FROM: 500000,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+    },
+    2021: {
+        CA: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.15,
+            BASE_TAX_CREDIT: 13808,
+            BASE_TAX_CREDIT_REDUCTION: {
+                MIN_BASE_TAX_CREDIT: 12421,
+                FROM: 151978,
+                TO: 216511,
+            },
+            RATES: [{
+                FROM: 0,
+                TO: 49020,
+                RATE: 0.15,
+            }, {
+                FROM: 49020,
+                TO: 98040,
+                RATE: 0.205,
+            }, {
+                FROM: 98040,
+                TO: 151978,
+                RATE: 0.26,
+            }, {
+                FROM: 151978,
+                TO: 216511,
+                RATE: 0.2932,
+            }, {
+                FROM: 216511,
+                TO: 999999999,
+                RATE: 0.33,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        AB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.10,
+            BASE_TAX_CREDIT: 19369,
+            RATES: [{
+                FROM: 0,
+                TO: 131220,
+                RATE: 0.10,
+            }, {
+                FROM: 131220,
+                TO: 157464,
+                RATE: 0.12,
+            }, {
+                FROM: 157464,
+                TO: 209952,
+                RATE: 0.13,
+            }, {
+                FROM: 209952,
+                TO: 314928,
+                RATE: 0.14,
+            }, {
+                FROM: 314928,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        BC: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0506,
+            BASE_TAX_CREDIT: 11070,
+            TAX_REDUCTION: initializeIncomeTestedTaxReduction({
+                BASE_AMOUNT: 481,
+                SPOUSE_AMOUNT: 0,
+                DEPENDANT_AMOUNT: 0,
+                MAX_DEPENDANTS: 0,
+                THRESHOLD: 21418,
+                REDUCTION_RATE: 0.0356,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 42184,
+                RATE: 0.0506,
+            }, {
+                FROM: 42184,
+                TO: 84369,
+                RATE: 0.077,
+            }, {
+                FROM: 84369,
+                TO: 96866,
+                RATE: 0.105,
+            }, {
+                FROM: 96866,
+                TO: 117623,
+                RATE: 0.1229,
+            }, {
+                FROM: 117623,
+                TO: 159483,
+                RATE: 0.147,
+            }, {
+                FROM: 159483,
+                TO: 222420,
+                RATE: 0.168,
+            }, {
+                FROM: 222420,
+                TO: 999999999,
+                RATE: 0.205,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        MB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.108,
+            BASE_TAX_CREDIT: 9936,
+            TAX_REDUCTION: MB_FAMILY_TAX_BENEFIT,
+            RATES: [{
+                FROM: 0,
+                TO: 33723,
+                RATE: 0.108,
+            }, {
+                FROM: 33723,
+                TO: 72885,
+                RATE: 0.1275,
+            }, {
+                FROM: 72885,
+                TO: 999999999,
+                RATE: 0.174,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0968,
+            BASE_TAX_CREDIT: 10564,
+            RATES: [{
+                FROM: 0,
+                TO: 43835,
+                RATE: 0.0968,
+            }, {
+                FROM: 43835,
+                TO: 87671,
+                RATE: 0.1482,
+            }, {
+                FROM: 87671,
+                TO: 142534,
+                RATE: 0.1652,
+            }, {
+                FROM: 142534,
+                TO: 162383,
+                RATE: 0.1784,
+            }, {
+                FROM: 162383,
+                TO: 999999999,
+                RATE: 0.203,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NL: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.087,
+            BASE_TAX_CREDIT: 9536,
+            RATES: [{
+                FROM: 0,
+                TO: 38081,
+                RATE: 0.087,
+            }, {
+                FROM: 38081,
+                TO: 76161,
+                RATE: 0.145,
+            }, {
+                FROM: 76161,
+                TO: 135973,
+                RATE: 0.158,
+            }, {
+                FROM: 135973,
+                TO: 190363,
+                RATE: 0.173,
+            }, {
+                FROM: 190363,
+                TO: 999999999,
+                RATE: 0.183,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NS: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0879,
+            BASE_TAX_CREDIT: 8481,
+            TAX_REDUCTION: NS_LOW_INCOME_TAX_REDUCTION,
+            RATES: [{
+                FROM: 0,
+                TO: 29590,
+                RATE: 0.0879,
+            }, {
+                FROM: 29590,
+                TO: 59180,
+                RATE: 0.1495,
+            }, {
+                FROM: 59180,
+                TO: 93000,
+                RATE: 0.1667,
+            }, {
+                FROM: 93000,
+                TO: 150000,
+                RATE: 0.175,
+            }, {
+                FROM: 150000,
+                TO: 999999999,
+                RATE: 0.21,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        PE: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.098,
+            BASE_TAX_CREDIT: 11250,
+            RATES: [{
+                FROM: 0,
+                TO: 31984,
+                RATE: 0.098,
+            }, {
+                FROM: 31984,
+                TO: 63969,
+                RATE: 0.138,
+            }, {
+                FROM: 63969,
+                TO: 999999999,
+                RATE: 0.167,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 12500,
+                RATE: 0,
+            }, {
+                FROM: 12500,
+                TO: 999999999,
+                RATE: 0.10,
+            }],
+        },
+        ON: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0505,
+            BASE_TAX_CREDIT: 10880,
+            TAX_REDUCTION: initializeOntarioTaxReduction({
+                BASIC_REDUCTION: 251,
+                DEPENDANT_REDUCTION: 464,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 45142,
+                RATE: 0.0505,
+            }, {
+                FROM: 45142,
+                TO: 90287,
+                RATE: 0.0915,
+            }, {
+                FROM: 90287,
+                TO: 150000,
+                RATE: 0.1116,
+            }, {
+                FROM: 150000,
+                TO: 220000,
+                RATE: 0.1216,
+            }, {
+                FROM: 220000,
+                TO: 999999999,
+                RATE: 0.1316,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 4874,
+                RATE: 0,
+            }, {
+                FROM: 4874,
+                TO: 6237,
+                RATE: 0.20,
+            }, {
+                FROM: 6237,
+                TO: 999999999,
+                RATE: 0.56, // 0.20 + 0.36
+            }],
+        },
+        QC: {
+            ABATEMENT: 0.165,
+            TAX_CREDIT_RATE: 0.15,
+            BASE_TAX_CREDIT: 15728,
+            RATES: [{
+                FROM: 0,
+                TO: 45105,
+                RATE: 0.15,
+            }, {
+                FROM: 45105,
+                TO: 90200,
+                RATE: 0.20,
+            }, {
+                FROM: 90200,
+                TO: 109755,
+                RATE: 0.24,
+            }, {
+                FROM: 109755,
+                TO: 999999999,
+                RATE: 0.2575,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        SK: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.105,
+            BASE_TAX_CREDIT: 16225,
+            RATES: [{
+                FROM: 0,
+                TO: 45677,
+                RATE: 0.105,
+            }, {
+                FROM: 45677,
+                TO: 130506,
+                RATE: 0.125,
+            }, {
+                FROM: 130506,
+                TO: 999999999,
+                RATE: 0.145,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.059,
+            BASE_TAX_CREDIT: 15243,
+            RATES: [{
+                FROM: 0,
+                TO: 44396,
+                RATE: 0.059,
+            }, {
+                FROM: 44396,
+                TO: 88796,
+                RATE: 0.086,
+            }, {
+                FROM: 88796,
+                TO: 144362,
+                RATE: 0.122,
+            }, {
+                FROM: 144362,
+                TO: 999999999,
+                RATE: 0.1405,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NU: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.04,
+            BASE_TAX_CREDIT: 16467,
+            RATES: [{
+                FROM: 0,
+                TO: 46740,
+                RATE: 0.04,
+            }, {
+                FROM: 46740,
+                TO: 93480,
+                RATE: 0.07,
+            }, {
+                FROM: 93480,
+                TO: 151978,
+                RATE: 0.09,
+            }, {
+                FROM: 151978,
+                TO: 999999999,
+                RATE: 0.115,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        YT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.064,
+            BASE_TAX_CREDIT: 13808,
+            RATES: [{
+                FROM: 0,
+                TO: 49020,
+                RATE: 0.064,
+            }, {
+                FROM: 49020,
+                TO: 98040,
+                RATE: 0.09,
+            }, {
+                FROM: 98040,
+                TO: 151978,
+                RATE: 0.109,
+            }, {
+                FROM: 151978,
+                TO: 500000,
+                RATE: 0.128,
+            }, {
+                FROM: 500000,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+    },
+    2022: {
+        CA: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.15,
+            BASE_TAX_CREDIT: 14398,
+            BASE_TAX_CREDIT_REDUCTION: {
+                MIN_BASE_TAX_CREDIT: 12719,
+                FROM: 155625,
+                TO: 221708,
+            },
+            RATES: [{
+                FROM: 0,
+                TO: 50197,
+                RATE: 0.15,
+            }, {
+                FROM: 50197,
+                TO: 100392,
+                RATE: 0.205,
+            }, {
+                FROM: 100392,
+                TO: 155625,
+                RATE: 0.26,
+            }, {
+                FROM: 155625,
+                TO: 221708,
+                RATE: 0.2932,
+            }, {
+                FROM: 221708,
+                TO: 999999999,
+                RATE: 0.33,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        AB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.10,
+            BASE_TAX_CREDIT: 19814,
+            RATES: [{
+                FROM: 0,
+                TO: 134238,
+                RATE: 0.10,
+            }, {
+                FROM: 134238,
+                TO: 161086,
+                RATE: 0.12,
+            }, {
+                FROM: 161086,
+                TO: 214781,
+                RATE: 0.13,
+            }, {
+                FROM: 214781,
+                TO: 322171,
+                RATE: 0.14,
+            }, {
+                FROM: 322171,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        BC: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0506,
+            BASE_TAX_CREDIT: 11302,
+            TAX_REDUCTION: initializeIncomeTestedTaxReduction({
+                BASE_AMOUNT: 491,
+                SPOUSE_AMOUNT: 0,
+                DEPENDANT_AMOUNT: 0,
+                MAX_DEPENDANTS: 0,
+                THRESHOLD: 21867,
+                REDUCTION_RATE: 0.0356,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 43070,
+                RATE: 0.0506,
+            }, {
+                FROM: 43070,
+                TO: 86141,
+                RATE: 0.077,
+            }, {
+                FROM: 86141,
+                TO: 98901,
+                RATE: 0.105,
+            }, {
+                FROM: 98901,
+                TO: 120094,
+                RATE: 0.1229,
+            }, {
+                FROM: 120094,
+                TO: 162832,
+                RATE: 0.147,
+            }, {
+                FROM: 162832,
+                TO: 227091,
+                RATE: 0.168,
+            }, {
+                FROM: 227091,
+                TO: 999999999,
+                RATE: 0.205,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        MB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.108,
+            BASE_TAX_CREDIT: 10145,
+            TAX_REDUCTION: MB_FAMILY_TAX_BENEFIT,
+            RATES: [{
+                FROM: 0,
+                TO: 34431,
+                RATE: 0.108,
+            }, {
+                FROM: 34431,
+                TO: 74416,
+                RATE: 0.1275,
+            }, {
+                FROM: 74416,
+                TO: 999999999,
+                RATE: 0.174,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0968,
+            BASE_TAX_CREDIT: 10817,
+            RATES: [{
+                FROM: 0,
+                TO: 44887,
+                RATE: 0.0968,
+            }, {
+                FROM: 44887,
+                TO: 89775,
+                RATE: 0.1482,
+            }, {
+                FROM: 89775,
+                TO: 145955,
+                RATE: 0.1652,
+            }, {
+                FROM: 145955,
+                TO: 166280,
+                RATE: 0.1784,
+            }, {
+                FROM: 166280,
+                TO: 999999999,
+                RATE: 0.203,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NL: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.087,
+            BASE_TAX_CREDIT: 9803,
+            RATES: [{
+                FROM: 0,
+                TO: 39147,
+                RATE: 0.087,
+            }, {
+                FROM: 39147,
+                TO: 78294,
+                RATE: 0.145,
+            }, {
+                FROM: 78294,
+                TO: 139780,
+                RATE: 0.158,
+            }, {
+                FROM: 139780,
+                TO: 195693,
+                RATE: 0.178,
+            }, {
+                FROM: 195693,
+                TO: 250000,
+                RATE: 0.198,
+            }, {
+                FROM: 250000,
+                TO: 500000,
+                RATE: 0.208,
+            }, {
+                FROM: 500000,
+                TO: 1000000,
+                RATE: 0.213,
+            }, {
+                FROM: 1000000,
+                TO: 999999999,
+                RATE: 0.218,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NS: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0879,
+            BASE_TAX_CREDIT: 8481,
+            TAX_REDUCTION: NS_LOW_INCOME_TAX_REDUCTION,
+            RATES: [{
+                FROM: 0,
+                TO: 29590,
+                RATE: 0.0879,
+            }, {
+                FROM: 29590,
+                TO: 59180,
+                RATE: 0.1495,
+            }, {
+                FROM: 59180,
+                TO: 93000,
+                RATE: 0.1667,
+            }, {
+                FROM: 93000,
+                TO: 150000,
+                RATE: 0.175,
+            }, {
+                FROM: 150000,
+                TO: 999999999,
+                RATE: 0.21,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        PE: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.098,
+            BASE_TAX_CREDIT: 11250,
+            RATES: [{
+                FROM: 0,
+                TO: 31984,
+                RATE: 0.098,
+            }, {
+                FROM: 31984,
+                TO: 63969,
+                RATE: 0.138,
+            }, {
+                FROM: 63969,
+                TO: 999999999,
+                RATE: 0.167,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 12500,
+                RATE: 0,
+            }, {
+                FROM: 12500,
+                TO: 999999999,
+                RATE: 0.10,
+            }],
+        },
+        ON: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0505,
+            BASE_TAX_CREDIT: 11141,
+            TAX_REDUCTION: initializeOntarioTaxReduction({
+                BASIC_REDUCTION: 257,
+                DEPENDANT_REDUCTION: 475,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 46226,
+                RATE: 0.0505,
+            }, {
+                FROM: 46226,
+                TO: 92454,
+                RATE: 0.0915,
+            }, {
+                FROM: 92454,
+                TO: 150000,
+                RATE: 0.1116,
+            }, {
+                FROM: 150000,
+                TO: 220000,
+                RATE: 0.1216,
+            }, {
+                FROM: 220000,
+                TO: 999999999,
+                RATE: 0.1316,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 4991,
+                RATE: 0,
+            }, {
+                FROM: 4991,
+                TO: 6387,
+                RATE: 0.20,
+            }, {
+                FROM: 6387,
+                TO: 999999999,
+                RATE: 0.56, // 0.20 + 0.36
+            }],
+        },
+        QC: {
+            ABATEMENT: 0.165,
+            TAX_CREDIT_RATE: 0.15,
+            BASE_TAX_CREDIT: 16143,
+            RATES: [{
+                FROM: 0,
+                TO: 46295,
+                RATE: 0.15,
+            }, {
+                FROM: 46295,
+                TO: 92580,
+                RATE: 0.20,
+            }, {
+                FROM: 92580,
+                TO: 112655,
+                RATE: 0.24,
+            }, {
+                FROM: 112655,
+                TO: 999999999,
+                RATE: 0.2575,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        SK: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.105,
+            BASE_TAX_CREDIT: 16615,
+            RATES: [{
+                FROM: 0,
+                TO: 46773,
+                RATE: 0.105,
+            }, {
+                FROM: 46773,
+                TO: 133638,
+                RATE: 0.125,
+            }, {
+                FROM: 133638,
+                TO: 999999999,
+                RATE: 0.145,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.059,
+            BASE_TAX_CREDIT: 15609,
+            RATES: [{
+                FROM: 0,
+                TO: 45462,
+                RATE: 0.059,
+            }, {
+                FROM: 45462,
+                TO: 90927,
+                RATE: 0.086,
+            }, {
+                FROM: 90927,
+                TO: 147826,
+                RATE: 0.122,
+            }, {
+                FROM: 147826,
+                TO: 999999999,
+                RATE: 0.1405,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NU: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.04,
+            BASE_TAX_CREDIT: 16862,
+            RATES: [{
+                FROM: 0,
+                TO: 47862,
+                RATE: 0.04,
+            }, {
+                FROM: 47862,
+                TO: 95724,
+                RATE: 0.07,
+            }, {
+                FROM: 95724,
+                TO: 155625,
+                RATE: 0.09,
+            }, {
+                FROM: 155625,
+                TO: 999999999,
+                RATE: 0.115,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        YT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.064,
+            BASE_TAX_CREDIT: 14398,
+            RATES: [{
+                FROM: 0,
+                TO: 50197,
+                RATE: 0.064,
+            }, {
+                FROM: 50197,
+                TO: 100392,
+                RATE: 0.09,
+            }, {
+                FROM: 100392,
+                TO: 155625,
+                RATE: 0.109,
+            }, {
+                FROM: 155625,
+                TO: 500000,
+                RATE: 0.128,
+            }, {
+                FROM: 500000,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+    },
+    2023: {
+        CA: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.15,
+            BASE_TAX_CREDIT: 15000,
+            BASE_TAX_CREDIT_REDUCTION: {
+                MIN_BASE_TAX_CREDIT: 13521,
+                FROM: 165430,
+                TO: 235675,
+            },
+            RATES: [{
+                FROM: 0,
+                TO: 53359,
+                RATE: 0.15,
+            }, {
+                FROM: 53359,
+                TO: 106717,
+                RATE: 0.205,
+            }, {
+                FROM: 106717,
+                TO: 165430,
+                RATE: 0.26,
+            }, {
+                FROM: 165430,
+                TO: 235675,
+                RATE: 0.2932,
+            }, {
+                FROM: 235675,
+                TO: 999999999,
+                RATE: 0.33,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        AB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.10,
+            BASE_TAX_CREDIT: 21003,
+            RATES: [{
+                FROM: 0,
+                TO: 142292,
+                RATE: 0.10,
+            }, {
+                FROM: 142292,
+                TO: 170751,
+                RATE: 0.12,
+            }, {
+                FROM: 170751,
+                TO: 227668,
+                RATE: 0.13,
+            }, {
+                FROM: 227668,
+                TO: 341502,
+                RATE: 0.14,
+            }, {
+                FROM: 341502,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        BC: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0506,
+            BASE_TAX_CREDIT: 11981,
+            TAX_REDUCTION: initializeIncomeTestedTaxReduction({
+                BASE_AMOUNT: 521,
+                SPOUSE_AMOUNT: 0,
+                DEPENDANT_AMOUNT: 0,
+                MAX_DEPENDANTS: 0,
+                THRESHOLD: 23179,
+                REDUCTION_RATE: 0.0356,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 45654,
+                RATE: 0.0506,
+            }, {
+                FROM: 45654,
+                TO: 91310,
+                RATE: 0.077,
+            }, {
+                FROM: 91310,
+                TO: 104835,
+                RATE: 0.105,
+            }, {
+                FROM: 104835,
+                TO: 127299,
+                RATE: 0.1229,
+            }, {
+                FROM: 127299,
+                TO: 172602,
+                RATE: 0.147,
+            }, {
+                FROM: 172602,
+                TO: 240716,
+                RATE: 0.168,
+            }, {
+                FROM: 240716,
+                TO: 999999999,
+                RATE: 0.205,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        MB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.108,
+            BASE_TAX_CREDIT: 10855,
+            TAX_REDUCTION: MB_FAMILY_TAX_BENEFIT,
+            RATES: [{
+                FROM: 0,
+                TO: 36842,
+                RATE: 0.108,
+            }, {
+                FROM: 36842,
+                TO: 79625,
+                RATE: 0.1275,
+            }, {
+                FROM: 79625,
+                TO: 999999999,
+                RATE: 0.174,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.094,
+            BASE_TAX_CREDIT: 12458,
+            RATES: [{
+                FROM: 0,
+                TO: 47715,
+                RATE: 0.094,
+            }, {
+                FROM: 47715,
+                TO: 95431,
+                RATE: 0.14,
+            }, {
+                FROM: 95431,
+                TO: 176756,
+                RATE: 0.16,
+            }, {
+                FROM: 176756,
+                TO: 999999999,
+                RATE: 0.195,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NL: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.087,
+            BASE_TAX_CREDIT: 10382,
+            RATES: [{
+                FROM: 0,
+                TO: 41457,
+                RATE: 0.087,
+            }, {
+                FROM: 41457,
+                TO: 82913,
+                RATE: 0.145,
+            }, {
+                FROM: 82913,
+                TO: 148027,
+                RATE: 0.158,
+            }, {
+                FROM: 148027,
+                TO: 207239,
+                RATE: 0.178,
+            }, {
+                FROM: 207239,
+                TO: 264750,
+                RATE: 0.198,
+            }, {
+                FROM: 264750,
+                TO: 529500,
+                RATE: 0.208,
+            }, {
+                FROM: 529500,
+                TO: 1059000,
+                RATE: 0.213,
+            }, {
+                FROM: 1059000,
+                TO: 999999999,
+                RATE: 0.218,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NS: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0879,
+            BASE_TAX_CREDIT: 8481,
+            TAX_REDUCTION: NS_LOW_INCOME_TAX_REDUCTION,
+            RATES: [{
+                FROM: 0,
+                TO: 29590,
+                RATE: 0.0879,
+            }, {
+                FROM: 29590,
+                TO: 59180,
+                RATE: 0.1495,
+            }, {
+                FROM: 59180,
+                TO: 93000,
+                RATE: 0.1667,
+            }, {
+                FROM: 93000,
+                TO: 150000,
+                RATE: 0.175,
+            }, {
+                FROM: 150000,
+                TO: 999999999,
+                RATE: 0.21,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        PE: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.098,
+            BASE_TAX_CREDIT: 12750,
+            RATES: [{
+                FROM: 0,
+                TO: 31984,
+                RATE: 0.098,
+            }, {
+                FROM: 31984,
+                TO: 63969,
+                RATE: 0.138,
+            }, {
+                FROM: 63969,
+                TO: 999999999,
+                RATE: 0.167,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 12500,
+                RATE: 0,
+            }, {
+                FROM: 12500,
+                TO: 999999999,
+                RATE: 0.10,
+            }],
+        },
+        ON: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0505,
+            BASE_TAX_CREDIT: 11865,
+            TAX_REDUCTION: initializeOntarioTaxReduction({
+                BASIC_REDUCTION: 274,
+                DEPENDANT_REDUCTION: 506,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 49231,
+                RATE: 0.0505,
+            }, {
+                FROM: 49231,
+                TO: 98463,
+                RATE: 0.0915,
+            }, {
+                FROM: 98463,
+                TO: 150000,
+                RATE: 0.1116,
+            }, {
+                FROM: 150000,
+                TO: 220000,
+                RATE: 0.1216,
+            }, {
+                FROM: 220000,
+                TO: 999999999,
+                RATE: 0.1316,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 5315,
+                RATE: 0,
+            }, {
+                FROM: 5315,
+                TO: 6802,
+                RATE: 0.20,
+            }, {
+                FROM: 6802,
+                TO: 999999999,
+                RATE: 0.56, // 0.20 + 0.36
+            }],
+        },
+        QC: {
+            ABATEMENT: 0.165,
+            TAX_CREDIT_RATE: 0.14,
+            BASE_TAX_CREDIT: 17183,
+            RATES: [{
+                FROM: 0,
+                TO: 49275,
+                RATE: 0.14,
+            }, {
+                FROM: 49275,
+                TO: 98540,
+                RATE: 0.19,
+            }, {
+                FROM: 98540,
+                TO: 119910,
+                RATE: 0.24,
+            }, {
+                FROM: 119910,
+                TO: 999999999,
+                RATE: 0.2575,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        SK: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.105,
+            BASE_TAX_CREDIT: 17661,
+            RATES: [{
+                FROM: 0,
+                TO: 49720,
+                RATE: 0.105,
+            }, {
+                FROM: 49720,
+                TO: 142058,
+                RATE: 0.125,
+            }, {
+                FROM: 142058,
+                TO: 999999999,
+                RATE: 0.145,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.059,
+            BASE_TAX_CREDIT: 16593,
+            RATES: [{
+                FROM: 0,
+                TO: 48326,
+                RATE: 0.059,
+            }, {
+                FROM: 48326,
+                TO: 96655,
+                RATE: 0.086,
+            }, {
+                FROM: 96655,
+                TO: 157139,
+                RATE: 0.122,
+            }, {
+                FROM: 157139,
+                TO: 999999999,
+                RATE: 0.1405,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NU: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.04,
+            BASE_TAX_CREDIT: 17925,
+            RATES: [{
+                FROM: 0,
+                TO: 50877,
+                RATE: 0.04,
+            }, {
+                FROM: 50877,
+                TO: 101754,
+                RATE: 0.07,
+            }, {
+                FROM: 101754,
+                TO: 165429,
+                RATE: 0.09,
+            }, {
+                FROM: 165429,
+                TO: 999999999,
+                RATE: 0.115,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        YT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.064,
+            BASE_TAX_CREDIT: 15000,
+            RATES: [{
+                FROM: 0,
+                TO: 53359,
+                RATE: 0.064,
+            }, {
+                FROM: 53359,
+                TO: 106717,
+                RATE: 0.09,
+            }, {
+                FROM: 106717,
+                TO: 165430,
+                RATE: 0.109,
+            }, {
+                FROM: 165430,
+                TO: 500000,
+                RATE: 0.128,
+            }, {
+                FROM: 500000,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+    },
+    2024: {
+        CA: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.15,
+            BASE_TAX_CREDIT: 15705,
+            BASE_TAX_CREDIT_REDUCTION: {
+                MIN_BASE_TAX_CREDIT: 14156,
+                FROM: 173205,
+                TO: 246752,
+            },
+            RATES: [{
+                FROM: 0,
+                TO: 55867,
+                RATE: 0.15,
+            }, {
+                FROM: 55867,
+                TO: 111733,
+                RATE: 0.205,
+            }, {
+                FROM: 111733,
+                TO: 173205,
+                RATE: 0.26,
+            }, {
+                FROM: 173205,
+                TO: 246752,
+                RATE: 0.2932,
+            }, {
+                FROM: 246752,
+                TO: 999999999,
+                RATE: 0.33,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        AB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.10,
+            BASE_TAX_CREDIT: 21885,
+            RATES: [{
+                FROM: 0,
+                TO: 148269,
+                RATE: 0.10,
+            }, {
+                FROM: 148269,
+                TO: 177922,
+                RATE: 0.12,
+            }, {
+                FROM: 177922,
+                TO: 237230,
+                RATE: 0.13,
+            }, {
+                FROM: 237230,
+                TO: 355845,
+                RATE: 0.14,
+            }, {
+                FROM: 355845,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        BC: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0506,
+            BASE_TAX_CREDIT: 12580,
+            TAX_REDUCTION: initializeIncomeTestedTaxReduction({
+                BASE_AMOUNT: 547,
+                SPOUSE_AMOUNT: 0,
+                DEPENDANT_AMOUNT: 0,
+                MAX_DEPENDANTS: 0,
+                THRESHOLD: 24338,
+                REDUCTION_RATE: 0.0356,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 47937,
+                RATE: 0.0506,
+            }, {
+                FROM: 47937,
+                TO: 95875,
+                RATE: 0.077,
+            }, {
+                FROM: 95875,
+                TO: 110076,
+                RATE: 0.105,
+            }, {
+                FROM: 110076,
+                TO: 133664,
+                RATE: 0.1229,
+            }, {
+                FROM: 133664,
+                TO: 181232,
+                RATE: 0.147,
+            }, {
+                FROM: 181232,
+                TO: 252752,
+                RATE: 0.168,
+            }, {
+                FROM: 252752,
+                TO: 999999999,
+                RATE: 0.205,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        MB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.108,
+            BASE_TAX_CREDIT: 15780,
+            TAX_REDUCTION: MB_FAMILY_TAX_BENEFIT,
+            RATES: [{
+                FROM: 0,
+                TO: 47000,
+                RATE: 0.108,
+            }, {
+                FROM: 47000,
+                TO: 100000,
+                RATE: 0.1275,
+            }, {
+                FROM: 100000,
+                TO: 999999999,
+                RATE: 0.174,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.094,
+            BASE_TAX_CREDIT: 13044,
+            RATES: [{
+                FROM: 0,
+                TO: 49958,
+                RATE: 0.094,
+            }, {
+                FROM: 49958,
+                TO: 99916,
+                RATE: 0.14,
+            }, {
+                FROM: 99916,
+                TO: 185064,
+                RATE: 0.16,
+            }, {
+                FROM: 185064,
+                TO: 999999999,
+                RATE: 0.195,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NL: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.087,
+            BASE_TAX_CREDIT: 10818,
+            RATES: [{
+                FROM: 0,
+                TO: 43198,
+                RATE: 0.087,
+            }, {
+                FROM: 43198,
+                TO: 86395,
+                RATE: 0.145,
+            }, {
+                FROM: 86395,
+                TO: 154244,
+                RATE: 0.158,
+            }, {
+                FROM: 154244,
+                TO: 215943,
+                RATE: 0.178,
+            }, {
+                FROM: 215943,
+                TO: 275870,
+                RATE: 0.198,
+            }, {
+                FROM: 275870,
+                TO: 551739,
+                RATE: 0.208,
+            }, {
+                FROM: 551739,
+                TO: 1103478,
+                RATE: 0.213,
+            }, {
+                FROM: 1103478,
+                TO: 999999999,
+                RATE: 0.218,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NS: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0879,
+            BASE_TAX_CREDIT: 8481,
+            TAX_REDUCTION: NS_LOW_INCOME_TAX_REDUCTION,
+            RATES: [{
+                FROM: 0,
+                TO: 29590,
+                RATE: 0.0879,
+            }, {
+                FROM: 29590,
+                TO: 59180,
+                RATE: 0.1495,
+            }, {
+                FROM: 59180,
+                TO: 93000,
+                RATE: 0.1667,
+            }, {
+                FROM: 93000,
+                TO: 150000,
+                RATE: 0.175,
+            }, {
+                FROM: 150000,
+                TO: 999999999,
+                RATE: 0.21,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        PE: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0965,
+            BASE_TAX_CREDIT: 13500,
+            RATES: [{
+                FROM: 0,
+                TO: 32656,
+                RATE: 0.0965,
+            }, {
+                FROM: 32656,
+                TO: 64313,
+                RATE: 0.1363,
+            }, {
+                FROM: 64313,
+                TO: 105000,
+                RATE: 0.1665,
+            }, {
+                FROM: 105000,
+                TO: 140000,
+                RATE: 0.18,
+            }, {
+                FROM: 140000,
+                TO: 999999999,
+                RATE: 0.1875,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        ON: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0505,
+            BASE_TAX_CREDIT: 12399,
+            TAX_REDUCTION: initializeOntarioTaxReduction({
+                BASIC_REDUCTION: 286,
+                DEPENDANT_REDUCTION: 529,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 51446,
+                RATE: 0.0505,
+            }, {
+                FROM: 51446,
+                TO: 102894,
+                RATE: 0.0915,
+            }, {
+                FROM: 102894,
+                TO: 150000,
+                RATE: 0.1116,
+            }, {
+                FROM: 150000,
+                TO: 220000,
+                RATE: 0.1216,
+            }, {
+                FROM: 220000,
+                TO: 999999999,
+                RATE: 0.1316,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 5554,
+                RATE: 0,
+            }, {
+                FROM: 5554,
+                TO: 7108,
+                RATE: 0.20,
+            }, {
+                FROM: 7108,
+                TO: 999999999,
+                RATE: 0.56, // 0.20 + 0.36
+            }],
+        },
+        QC: {
+            ABATEMENT: 0.165,
+            TAX_CREDIT_RATE: 0.14,
+            BASE_TAX_CREDIT: 18056,
+            RATES: [{
+                FROM: 0,
+                TO: 51780,
+                RATE: 0.14,
+            }, {
+                FROM: 51780,
+                TO: 103545,
+                RATE: 0.19,
+            }, {
+                FROM: 103545,
+                TO: 126000,
+                RATE: 0.24,
+            }, {
+                FROM: 126000,
+                TO: 999999999,
+                RATE: 0.2575,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        SK: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.105,
+            BASE_TAX_CREDIT: 18491,
+            RATES: [{
+                FROM: 0,
+                TO: 52057,
+                RATE: 0.105,
+            }, {
+                FROM: 52057,
+                TO: 148734,
+                RATE: 0.125,
+            }, {
+                FROM: 148734,
+                TO: 999999999,
+                RATE: 0.145,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.059,
+            BASE_TAX_CREDIT: 17373,
+            RATES: [{
+                FROM: 0,
+                TO: 50597,
+                RATE: 0.059,
+            }, {
+                FROM: 50597,
+                TO: 101198,
+                RATE: 0.086,
+            }, {
+                FROM: 101198,
+                TO: 164525,
+                RATE: 0.122,
+            }, {
+                FROM: 164525,
+                TO: 999999999,
+                RATE: 0.1405,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NU: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.04,
+            BASE_TAX_CREDIT: 18767,
+            RATES: [{
+                FROM: 0,
+                TO: 53268,
+                RATE: 0.04,
+            }, {
+                FROM: 53268,
+                TO: 106537,
+                RATE: 0.07,
+            }, {
+                FROM: 106537,
+                TO: 173205,
+                RATE: 0.09,
+            }, {
+                FROM: 173205,
+                TO: 999999999,
+                RATE: 0.115,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        YT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.064,
+            BASE_TAX_CREDIT: 15705,
+            RATES: [{
+                FROM: 0,
+                TO: 55867,
+                RATE: 0.064,
+            }, {
+                FROM: 55867,
+                TO: 111733,
+                RATE: 0.09,
+            }, {
+                FROM: 111733,
+                TO: 173205,
+                RATE: 0.109,
+            }, {
+                FROM: 173205,
+                TO: 500000,
+                RATE: 0.128,
+            }, {
+                FROM: 500000,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+    },
+    2025: {
+        ...TAX_BRACKETS,
+        CA: {
+            ...TAX_BRACKETS.CA,
+            TAX_CREDIT_RATE_SEGMENTS: CA_LOWEST_TAX_RATE_SEGMENTS_2025,
+            RATES: [{
+                ...TAX_BRACKETS.CA.RATES[0],
+                SEGMENTS: CA_LOWEST_TAX_RATE_SEGMENTS_2025,
+            }, ...TAX_BRACKETS.CA.RATES.slice(1)],
+        },
+    },
+    2026: {
+        // MB, NB, NL, NS, PE and SK keep their 2025 amounts until their 2026 amounts are added
+        ...TAX_BRACKETS,
+        CA: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.14,
+            BASE_TAX_CREDIT: 16452,
+            BASE_TAX_CREDIT_REDUCTION: {
+                MIN_BASE_TAX_CREDIT: 14829,
+                FROM: 181440,
+                TO: 258482,
+            },
+            RATES: [{
+                FROM: 0,
+                TO: 58523,
+                RATE: 0.14,
+            }, {
+                FROM: 58523,
+                TO: 117045,
+                RATE: 0.205,
+            }, {
+                FROM: 117045,
+                TO: 181440,
+                RATE: 0.26,
+            }, {
+                FROM: 181440,
+                TO: 258482,
+                RATE: 0.2932,
+            }, {
+                FROM: 258482,
+                TO: 999999999,
+                RATE: 0.33,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        AB: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.08,
+            BASE_TAX_CREDIT: 22769,
+            RATES: [{
+                FROM: 0,
+                TO: 61200,
+                RATE: 0.08,
+            }, {
+                FROM: 61200,
+                TO: 154259,
+                RATE: 0.10,
+            }, {
+                FROM: 154259,
+                TO: 185111,
+                RATE: 0.12,
+            }, {
+                FROM: 185111,
+                TO: 246813,
+                RATE: 0.13,
+            }, {
+                FROM: 246813,
+                TO: 370220,
+                RATE: 0.14,
+            }, {
+                FROM: 370220,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        BC: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.056,
+            BASE_TAX_CREDIT: 13216,
+            TAX_REDUCTION: initializeIncomeTestedTaxReduction({
+                BASE_AMOUNT: 574,
+                SPOUSE_AMOUNT: 0,
+                DEPENDANT_AMOUNT: 0,
+                MAX_DEPENDANTS: 0,
+                THRESHOLD: 25570,
+                REDUCTION_RATE: 0.0356,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 50363,
+                RATE: 0.056,
+            }, {
+                FROM: 50363,
+                TO: 100728,
+                RATE: 0.077,
+            }, {
+                FROM: 100728,
+                TO: 115648,
+                RATE: 0.105,
+            }, {
+                FROM: 115648,
+                TO: 140430,
+                RATE: 0.1229,
+            }, {
+                FROM: 140430,
+                TO: 190405,
+                RATE: 0.147,
+            }, {
+                FROM: 190405,
+                TO: 265545,
+                RATE: 0.168,
+            }, {
+                FROM: 265545,
+                TO: 999999999,
+                RATE: 0.205,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        ON: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.0505,
+            BASE_TAX_CREDIT: 12989,
+            TAX_REDUCTION: initializeOntarioTaxReduction({
+                BASIC_REDUCTION: 300,
+                DEPENDANT_REDUCTION: 554,
+            }),
+            RATES: [{
+                FROM: 0,
+                TO: 53891,
+                RATE: 0.0505,
+            }, {
+                FROM: 53891,
+                TO: 107785,
+                RATE: 0.0915,
+            }, {
+                FROM: 107785,
+                TO: 150000,
+                RATE: 0.1116,
+            }, {
+                FROM: 150000,
+                TO: 220000,
+                RATE: 0.1216,
+            }, {
+                FROM: 220000,
+                TO: 999999999,
+                RATE: 0.1316,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 5818,
+                RATE: 0,
+            }, {
+                FROM: 5818,
+                TO: 7446,
+                RATE: 0.20,
+            }, {
+                FROM: 7446,
+                TO: 999999999,
+                RATE: 0.56, // 0.20 + 0.36
+            }],
+        },
+        QC: {
+            ABATEMENT: 0.165,
+            TAX_CREDIT_RATE: 0.14,
+            BASE_TAX_CREDIT: 18952,
+            RATES: [{
+                FROM: 0,
+                TO: 54345,
+                RATE: 0.14,
+            }, {
+                FROM: 54345,
+                TO: 108680,
+                RATE: 0.19,
+            }, {
+                FROM: 108680,
+                TO: 132245,
+                RATE: 0.24,
+            }, {
+                FROM: 132245,
+                TO: 999999999,
+                RATE: 0.2575,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.059,
+            BASE_TAX_CREDIT: 18198,
+            RATES: [{
+                FROM: 0,
+                TO: 53003,
+                RATE: 0.059,
+            }, {
+                FROM: 53003,
+                TO: 106009,
+                RATE: 0.086,
+            }, {
+                FROM: 106009,
+                TO: 172346,
+                RATE: 0.122,
+            }, {
+                FROM: 172346,
+                TO: 999999999,
+                RATE: 0.1405,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        NU: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.04,
+            BASE_TAX_CREDIT: 19659,
+            RATES: [{
+                FROM: 0,
+                TO: 55801,
+                RATE: 0.04,
+            }, {
+                FROM: 55801,
+                TO: 111602,
+                RATE: 0.07,
+            }, {
+                FROM: 111602,
+                TO: 181439,
+                RATE: 0.09,
+            }, {
+                FROM: 181439,
+                TO: 999999999,
+                RATE: 0.115,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+        YT: {
+            ABATEMENT: 0,
+            TAX_CREDIT_RATE: 0.064,
+            BASE_TAX_CREDIT: 16452,
+            RATES: [{
+                FROM: 0,
+                TO: 58523,
+                RATE: 0.064,
+            }, {
+                FROM: 58523,
+                TO: 117045,
+                RATE: 0.09,
+            }, {
+                FROM: 117045,
+                TO: 181440,
+                RATE: 0.109,
+            }, {
+                FROM: 181440,
+                TO: 500000,
+                RATE: 0.128,
+            }, {
+                FROM: 500000,
+                TO: 999999999,
+                RATE: 0.15,
+            }],
+            SURTAX_RATES: [{
+                FROM: 0,
+                TO: 999999999,
+                RATE: 0,
+            }],
+        },
+    },
+};
+
+// Year of the amounts of TAX_BRACKETS
+const TAX_BRACKETS_YEAR = 2025;
+const TAX_YEARS = Object.keys(TAX_BRACKETS_BY_YEAR).map(Number);
+const FIRST_TAX_YEAR = Math.min(...TAX_YEARS);
+const LATEST_TAX_YEAR = Math.max(...TAX_YEARS);
+
+// Years before TAX_BRACKETS are only used when requested
+function getDefaultTaxYear(yearsToInflate: number): number | undefined {
+    const currentYear = now().getFullYear();
+    return yearsToInflate === 0 && currentYear >= TAX_BRACKETS_YEAR && TAX_BRACKETS_BY_YEAR[currentYear]
+        ? currentYear
+        : undefined;
+}
+
+// The amounts of years after the latest published year are indexed by getIndexedAmount
+export function getTaxBracketsByYear(taxYear?: number): TaxBrackets {
+    if (taxYear === undefined) {
+        return TAX_BRACKETS;
+    }
+    if (taxYear > LATEST_TAX_YEAR) {
+        return TAX_BRACKETS_BY_YEAR[LATEST_TAX_YEAR];
+    }
+    if (taxYear < FIRST_TAX_YEAR) {
+        throw new RangeError(`No tax brackets before ${FIRST_TAX_YEAR}, got ${taxYear}`);
+    }
+    return TAX_BRACKETS_BY_YEAR[taxYear];
+}
+
+function getProratedRate(rate: number, segments: RateSegment[] | undefined, yearsToInflate: number): number {
+    // Segments only apply to the year they describe, projected years use the rate in effect at the end of it
+    if (!segments?.length || yearsToInflate !== 0) {
+        return rate;
+    }
+    const startMonths = segments.map((segment, index) => (
+        index === 0 ? 0 : new Date(segment.EFFECTIVE_DATE).getUTCMonth()
+    ));
+    const blendedRate = segments.reduce((previous, current, index) => {
+        const months = (startMonths[index + 1] ?? 12) - startMonths[index];
+        return previous + ((current.RATE * months) / 12);
+    }, 0);
+    return roundToPrecision(blendedRate, 6);
+}
+
+export function getBlendedRate(rate: Rate, yearsToInflate = 0): number {
+    return getProratedRate(rate.RATE, rate.SEGMENTS, yearsToInflate);
+}
+
+export function getIndexationBaseYear(taxYear?: number): number {
+    return clamp(taxYear ?? TAX_BRACKETS_YEAR, FIRST_TAX_YEAR, LATEST_TAX_YEAR);
+}
+
+// Years after the latest published year are indexed from it before being projected
+export function getTaxYearIndexationFactor(
+    code: ProvinceCode | FederalCode,
+    inflationRate: number,
+    yearsToInflate: number,
+    taxYear?: number,
+): number {
+    const baseYear = getIndexationBaseYear(taxYear);
+    const yearsAfterBaseYear = Math.max((taxYear ?? baseYear) - baseYear, 0);
+    return getIndexationFactor(code, inflationRate, yearsToInflate + yearsAfterBaseYear, baseYear);
 }
 
-export function getTaxAmount(rates: Rate[], income: number, inflationRate: number, yearsToInflate: number): number {
+export function getIndexedAmount(
+    code: ProvinceCode | FederalCode,
+    amount: number,
+    inflationRate: number,
+    yearsToInflate: number,
+    taxYear?: number,
+): number {
+    return amount * getTaxYearIndexationFactor(code, inflationRate, yearsToInflate, taxYear);
+}
+
+function getBracketLimit(
+    limit: number,
+    inflationRate: number,
+    yearsToInflate: number,
+    code?: ProvinceCode | FederalCode,
+    taxYear?: number,
+): number {
+    return code
+        ? getIndexedAmount(code, limit, inflationRate, yearsToInflate, taxYear)
+        : inflate(limit, inflationRate, yearsToInflate);
+}
+
+export function getTaxAmount(
+    rates: Rate[],
+    income: number,
+    inflationRate: number,
+    yearsToInflate: number,
+    code?: ProvinceCode | FederalCode,
+    taxYear?: number,
+): number {
     const reducer = (previous: number, current: Rate): number => {
-        const bracketFrom = inflate(current.FROM, inflationRate, yearsToInflate);
-        const bracketTo = inflate(current.TO, inflationRate, yearsToInflate);
-        const bracketTax = bracketFrom < income ? (Math.min(income, bracketTo) - bracketFrom) * current.RATE : 0;
+        const bracketFrom = getBracketLimit(current.FROM, inflationRate, yearsToInflate, code, taxYear);
+        const bracketTo = getBracketLimit(current.TO, inflationRate, yearsToInflate, code, taxYear);
+        const bracketRate = getBlendedRate(current, yearsToInflate);
+        const bracketTax = bracketFrom < income ? (Math.min(income, bracketTo) - bracketFrom) * bracketRate : 0;
         return previous + bracketTax;
     };
     return rates.reduce(reducer, 0);
 }
 
-export function getRate(brackets: Rate[], grossIncome: number, inflationRate: number, yearsToInflate: number): number {
+export function getRate(
+    brackets: Rate[],
+    grossIncome: number,
+    inflationRate: number,
+    yearsToInflate: number,
+    code?: ProvinceCode | FederalCode,
+    taxYear?: number,
+): number {
     const reducer = (previous: number, current: Rate): number => {
-        const bracketFrom = inflate(current.FROM, inflationRate, yearsToInflate);
-        return bracketFrom < grossIncome ? current.RATE : previous;
+        const bracketFrom = getBracketLimit(current.FROM, inflationRate, yearsToInflate, code, taxYear);
+        return bracketFrom < grossIncome ? getBlendedRate(current, yearsToInflate) : previous;
     };
     return brackets.reduce(reducer, 0);
 }
 
-export function getTaxRates(code: ProvinceCode | FederalCode): Rate[] {
-    return structuredClone(TAX_BRACKETS[code].RATES);
+export function getTaxRates(code: ProvinceCode | FederalCode, taxYear?: number): Rate[] {
+    return structuredClone(getTaxBracketsByYear(taxYear)[code].RATES);
 }
 
-function getAbatement(code: ProvinceCode | FederalCode): number {
-    return TAX_BRACKETS[code].ABATEMENT;
+function getAbatement(code: ProvinceCode | FederalCode, taxYear?: number): number {
+    return getTaxBracketsByYear(taxYear)[code].ABATEMENT;
 }
 
-function getSurtaxRates(code: ProvinceCode | FederalCode): Rate[] {
-    return structuredClone(TAX_BRACKETS[code].SURTAX_RATES);
+function getSurtaxRates(code: ProvinceCode | FederalCode, taxYear?: number): Rate[] {
+    return structuredClone(getTaxBracketsByYear(taxYear)[code].SURTAX_RATES);
 }
 
-export function getFederalTaxRates(yearsToInflate: number): Rate[] {
-    const rates = getTaxRates(FEDERAL_CODE);
-    const shouldUse2025Rate = yearsToInflate === 0 && now().getFullYear() === 2025;
-    if (shouldUse2025Rate) {
-        rates[0].RATE = CA_LOWEST_TAX_RATE_2025;
-    }
-    return rates;
+export function getFederalTaxRates(yearsToInflate: number, taxYear = getDefaultTaxYear(yearsToInflate)): Rate[] {
+    return getTaxBracketsByYear(taxYear)[FEDERAL_CODE].RATES.map((rate) => ({
+        FROM: rate.FROM,
+        TO: rate.TO,
+        RATE: getBlendedRate(rate, yearsToInflate),
+    }));
 }
 
-export function getFederalBaseTaxAmount(grossIncome: number, inflationRate = 0, yearsToInflate = 0): number {
-    return getTaxAmount(getFederalTaxRates(yearsToInflate), grossIncome, inflationRate, yearsToInflate);
+export function getFederalBaseTaxAmount(
+    grossIncome: number,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): number {
+    const rates = getFederalTaxRates(yearsToInflate, taxYear);
+    return getTaxAmount(rates, grossIncome, inflationRate, yearsToInflate, FEDERAL_CODE, taxYear);
+}
+
+export function getFederalTaxCreditRate(yearsToInflate: number, taxYear = getDefaultTaxYear(yearsToInflate)): number {
+    const { TAX_CREDIT_RATE, TAX_CREDIT_RATE_SEGMENTS } = getTaxBracketsByYear(taxYear).CA;
+    return getProratedRate(TAX_CREDIT_RATE, TAX_CREDIT_RATE_SEGMENTS, yearsToInflate);
 }
 
-export function getFederalTaxCreditRate(yearsToInflate: number): number {
-    const shouldUse2025Rate = yearsToInflate === 0 && now().getFullYear() === 2025;
-    return shouldUse2025Rate ? CA_LOWEST_TAX_RATE_2025 : TAX_BRACKETS.CA.TAX_CREDIT_RATE;
+export function getFederalBasePersonalAmount(
+    grossIncome: number,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): number {
+    const { BASE_TAX_CREDIT, BASE_TAX_CREDIT_REDUCTION } = getTaxBracketsByYear(taxYear).CA;
+    const index = (amount: number): number => (
+        getIndexedAmount(FEDERAL_CODE, amount, inflationRate, yearsToInflate, taxYear)
+    );
+    const baseAmount = index(BASE_TAX_CREDIT);
+    if (!BASE_TAX_CREDIT_REDUCTION) {
+        return baseAmount;
+    }
+    const minAmount = index(BASE_TAX_CREDIT_REDUCTION.MIN_BASE_TAX_CREDIT);
+    const reductionFrom = index(BASE_TAX_CREDIT_REDUCTION.FROM);
+    const reductionTo = index(BASE_TAX_CREDIT_REDUCTION.TO);
+    const reductionRatio = clamp((grossIncome - reductionFrom) / (reductionTo - reductionFrom), 0, 1);
+    return baseAmount - ((baseAmount - minAmount) * reductionRatio);
 }
 
-export function getFederalBaseCredit(inflationRate: number, yearsToInflate: number): number {
-    const baseTaxCredit = TAX_BRACKETS.CA.BASE_TAX_CREDIT * getFederalTaxCreditRate(yearsToInflate);
-    return inflate(baseTaxCredit, inflationRate, yearsToInflate);
+export function getFederalBaseCredit(
+    inflationRate: number,
+    yearsToInflate: number,
+    taxYear = getDefaultTaxYear(yearsToInflate),
+    grossIncome = 0,
+): number {
+    const basePersonalAmount = getFederalBasePersonalAmount(grossIncome, inflationRate, yearsToInflate, taxYear);
+    return basePersonalAmount * getFederalTaxCreditRate(yearsToInflate, taxYear);
 }
 
-export function getProvincialAbatement(province: ProvinceCode, federalTaxAmount: number): number {
-    return getAbatement(province) * federalTaxAmount;
+export function getProvincialAbatement(province: ProvinceCode, federalTaxAmount: number, taxYear?: number): number {
+    return getAbatement(province, taxYear) * federalTaxAmount;
 }
 
 export function getFederalTaxAmount(
@@ -531,11 +3241,12 @@ export function getFederalTaxAmount(
     inflationRate = 0,
     yearsToInflate = 0,
     taxCredit = 0,
+    taxYear?: number,
 ): number {
-    const federalBaseTaxAmount = getFederalBaseTaxAmount(grossIncome, inflationRate, yearsToInflate);
-    const baseCredit = getFederalBaseCredit(inflationRate, yearsToInflate);
+    const federalBaseTaxAmount = getFederalBaseTaxAmount(grossIncome, inflationRate, yearsToInflate, taxYear);
+    const baseCredit = getFederalBaseCredit(inflationRate, yearsToInflate, taxYear, grossIncome);
     const federalTax = Math.max(federalBaseTaxAmount - baseCredit - taxCredit, 0);
-    const abatement = getProvincialAbatement(provincialCode, federalTax);
+    const abatement = getProvincialAbatement(provincialCode, federalTax, taxYear);
     return Math.max(federalTax - abatement, 0);
 }
 
@@ -544,8 +3255,10 @@ export function getProvincialSurtaxAmount(
     baseTaxAmount: number,
     inflationRate = 0,
     yearsToInflate = 0,
+    taxYear?: number,
 ): number {
-    return getTaxAmount(getSurtaxRates(province), baseTaxAmount, inflationRate, yearsToInflate);
+    const surtaxRates = getSurtaxRates(province, taxYear);
+    return getTaxAmount(surtaxRates, baseTaxAmount, inflationRate, yearsToInflate, province, taxYear);
 }
 
 export function getProvincialBaseTaxAmount(
@@ -553,27 +3266,73 @@ export function getProvincialBaseTaxAmount(
     grossIncome: number,
     inflationRate = 0,
     yearsToInflate = 0,
+    taxYear?: number,
+): number {
+    return getTaxAmount(getTaxRates(province, taxYear), grossIncome, inflationRate, yearsToInflate, province, taxYear);
+}
+
+export function getProvincialTaxCreditRate(province: ProvinceCode, yearsToInflate: number, taxYear?: number): number {
+    return getBlendedRate(getTaxBracketsByYear(taxYear)[province].RATES[0], yearsToInflate);
+}
+
+export function getProvincialBaseCredit(
+    province: ProvinceCode,
+    inflationRate: number,
+    yearsToInflate: number,
+    taxYear?: number,
 ): number {
-    return getTaxAmount(getTaxRates(province), grossIncome, inflationRate, yearsToInflate);
+    const { BASE_TAX_CREDIT } = getTaxBracketsByYear(taxYear)[province];
+    const baseTaxCredit = BASE_TAX_CREDIT * getProvincialTaxCreditRate(province, yearsToInflate, taxYear);
+    return getIndexedAmount(province, baseTaxCredit, inflationRate, yearsToInflate, taxYear);
 }
 
-export function getProvincialBaseCredit(province: ProvinceCode, inflationRate: number, yearsToInflate: number): number {
-    const baseTaxCredit = TAX_BRACKETS[province].BASE_TAX_CREDIT * TAX_BRACKETS[province].RATES[0].RATE;
-    return inflate(baseTaxCredit, inflationRate, yearsToInflate);
+export function getProvincialTaxReduction(
+    province: ProvinceCode,
+    grossIncome: number,
+    provincialTaxAmount: number,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+    household: TaxReductionHousehold = NO_HOUSEHOLD,
+): number {
+    const taxReduction = getTaxBracketsByYear(taxYear)[province].TAX_REDUCTION;
+    if (!taxReduction) {
+        return 0;
+    }
+    return taxReduction.getReduction({
+        ...household,
+        income: grossIncome,
+        tax: provincialTaxAmount,
+        indexationFactor: getTaxYearIndexationFactor(province, inflationRate, yearsToInflate, taxYear),
+    });
 }
 
+// The taxCredit is deducted after the surtax, the taxCreditBeforeSurtax (e.g. dividend tax credits) before it
 export function getProvincialTaxAmount(
     province: ProvinceCode,
     grossIncome: number,
     inflationRate = 0,
     yearsToInflate = 0,
     taxCredit = 0,
+    taxYear?: number,
+    household: TaxReductionHousehold = NO_HOUSEHOLD,
+    taxCreditBeforeSurtax = 0,
 ): number {
-    const baseTaxAmount = getProvincialBaseTaxAmount(province, grossIncome, inflationRate, yearsToInflate);
-    const baseCredit = getProvincialBaseCredit(province, inflationRate, yearsToInflate);
-    const tax = Math.max(baseTaxAmount - baseCredit, 0);
-    const surTax = getProvincialSurtaxAmount(province, tax, inflationRate, yearsToInflate);
-    return Math.max(tax + surTax - taxCredit, 0);
+    const baseTaxAmount = getProvincialBaseTaxAmount(province, grossIncome, inflationRate, yearsToInflate, taxYear);
+    const baseCredit = getProvincialBaseCredit(province, inflationRate, yearsToInflate, taxYear);
+    const tax = Math.max(baseTaxAmount - baseCredit - taxCreditBeforeSurtax, 0);
+    const surTax = getProvincialSurtaxAmount(province, tax, inflationRate, yearsToInflate, taxYear);
+    const provincialTax = Math.max(tax + surTax - taxCredit, 0);
+    const reduction = getProvincialTaxReduction(
+        province,
+        grossIncome,
+        provincialTax,
+        inflationRate,
+        yearsToInflate,
+        taxYear,
+        household,
+    );
+    return provincialTax - reduction;
 }
 
 export function getFederalMarginalRate(
@@ -581,10 +3340,11 @@ export function getFederalMarginalRate(
     grossIncome: number,
     inflationRate = 0,
     yearsToInflate = 0,
+    taxYear?: number,
 ): number {
-    const brackets = getTaxRates(FEDERAL_CODE);
-    const rate = getRate(brackets, grossIncome, inflationRate, yearsToInflate);
-    return rate * (1 - getAbatement(provincialCode));
+    const brackets = getTaxRates(FEDERAL_CODE, taxYear);
+    const rate = getRate(brackets, grossIncome, inflationRate, yearsToInflate, FEDERAL_CODE, taxYear);
+    return rate * (1 - getAbatement(provincialCode, taxYear));
 }
 
 export function getProvincialMarginalRate(
@@ -592,16 +3352,24 @@ export function getProvincialMarginalRate(
     grossIncome: number,
     inflationRate = 0,
     yearsToInflate = 0,
+    taxYear?: number,
 ): number {
-    const taxAmount = getProvincialTaxAmount(provincialCode, grossIncome, inflationRate, yearsToInflate);
-    const taxCredit = getProvincialBaseCredit(provincialCode, inflationRate, yearsToInflate);
+    const taxAmount = getProvincialTaxAmount(provincialCode, grossIncome, inflationRate, yearsToInflate, 0, taxYear);
+    const taxCredit = getProvincialBaseCredit(provincialCode, inflationRate, yearsToInflate, taxYear);
     const provincialTaxAmount = Math.max(taxAmount - taxCredit, 0);
 
-    const taxBrackets = getTaxRates(provincialCode);
-    const surtaxBrackets = getSurtaxRates(provincialCode);
+    const taxBrackets = getTaxRates(provincialCode, taxYear);
+    const surtaxBrackets = getSurtaxRates(provincialCode, taxYear);
 
-    const taxRate = getRate(taxBrackets, grossIncome, inflationRate, yearsToInflate);
-    const surtaxRate = getRate(surtaxBrackets, provincialTaxAmount, inflationRate, yearsToInflate);
+    const taxRate = getRate(taxBrackets, grossIncome, inflationRate, yearsToInflate, provincialCode, taxYear);
+    const surtaxRate = getRate(
+        surtaxBrackets,
+        provincialTaxAmount,
+        inflationRate,
+        yearsToInflate,
+        provincialCode,
+        taxYear,
+    );
 
     return taxRate + (taxRate * surtaxRate);
 }
@@ -611,32 +3379,33 @@ export function getTotalMarginalRate(
     grossIncome: number,
     inflationRate = 0,
     yearsToInflate = 0,
+    taxYear?: number,
 ): number {
-    const provRate = getProvincialMarginalRate(provincialCode, grossIncome, inflationRate, yearsToInflate);
-    const fedRate = getFederalMarginalRate(provincialCode, grossIncome, inflationRate, yearsToInflate);
+    const provRate = getProvincialMarginalRate(provincialCode, grossIncome, inflationRate, yearsToInflate, taxYear);
+    const fedRate = getFederalMarginalRate(provincialCode, grossIncome, inflationRate, yearsToInflate, taxYear);
 
     return roundToPrecision(provRate + fedRate, 4);
 }
 
-export function getMaxProvincialMarginalRate(provincialCode: ProvinceCode): number {
+export function getMaxProvincialMarginalRate(provincialCode: ProvinceCode, taxYear?: number): number {
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    const marginalRate = maxBy(getTaxRates(provincialCode), (bracket: Rate) => bracket.TO)!.RATE;
+    const marginalRate = maxBy(getTaxRates(provincialCode, taxYear), (bracket: Rate) => bracket.TO)!.RATE;
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    const surtaxRate = maxBy(getSurtaxRates(provincialCode), (bracket) => bracket.TO)!.RATE;
+    const surtaxRate = maxBy(getSurtaxRates(provincialCode, taxYear), (bracket) => bracket.TO)!.RATE;
 
     return marginalRate + (marginalRate * surtaxRate);
 }
 
-export function getMaxFederalMarginalRate(provincialCode: ProvinceCode): number {
+export function getMaxFederalMarginalRate(provincialCode: ProvinceCode, taxYear?: number): number {
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-    const maxRate = maxBy(getTaxRates(FEDERAL_CODE), (bracket) => bracket.TO)!.RATE;
+    const maxRate = maxBy(getTaxRates(FEDERAL_CODE, taxYear), (bracket) => bracket.TO)!.RATE;
 
-    return maxRate * (1 - getAbatement(provincialCode));
+    return maxRate * (1 - getAbatement(provincialCode, taxYear));
 }
 
-export function getTotalMaxMarginalRate(provincialCode: ProvinceCode): number {
-    const provRate = getMaxProvincialMarginalRate(provincialCode);
-    const fedRate = getMaxFederalMarginalRate(provincialCode);
+export function getTotalMaxMarginalRate(provincialCode: ProvinceCode, taxYear?: number): number {
+    const provRate = getMaxProvincialMarginalRate(provincialCode, taxYear);
+    const fedRate = getMaxFederalMarginalRate(provincialCode, taxYear);
 
     return roundToPrecision(provRate + fedRate, 4);
 }
@@ -646,9 +3415,26 @@ export function getTotalTaxAmount(
     grossIncome: number,
     inflationRate = 0,
     yearsToInflate = 0,
+    taxYear?: number,
+    federalTaxCredit = 0,
+    provincialTaxCredit = 0,
 ): number {
-    const provTax = getProvincialTaxAmount(provincialCode, grossIncome, inflationRate, yearsToInflate);
-    const fedTax = getFederalTaxAmount(provincialCode, grossIncome, inflationRate, yearsToInflate);
+    const provTax = getProvincialTaxAmount(
+        provincialCode,
+        grossIncome,
+        inflationRate,
+        yearsToInflate,
+        provincialTaxCredit,
+        taxYear,
+    );
+    const fedTax = getFederalTaxAmount(
+        provincialCode,
+        grossIncome,
+        inflationRate,
+        yearsToInflate,
+        federalTaxCredit,
+        taxYear,
+    );
     return Math.max(provTax, 0) + Math.max(fedTax, 0);
 }
 
@@ -657,9 +3443,10 @@ export function getEffectiveRate(
     income: number,
     inflationRate = 0,
     yearsToInflate = 0,
+    taxYear?: number,
 ): number {
     if (income <= 0) {
         return 0;
     }
-    return (getTotalTaxAmount(province, income, inflationRate, yearsToInflate)) / income;
+    return (getTotalTaxAmount(province, income, inflationRate, yearsToInflate, taxYear)) / income;
 }
@@ -0,0 +1,177 @@
+/*
+Sources
+    https://www.taxtips.ca/dtc/dividend-tax-credit.htm
+    https://www.canada.ca/en/revenue-agency/services/tax/individuals/topics/about-your-tax-return/tax-return/
+        completing-a-tax-return/personal-income/line-12700-capital-gains.html
+
+Notes
+    Dividends are grossed up and capital gains are included at the CAPITAL_GAINS_BRACKETS rate in the taxable income.
+    The dividend tax credits are applied against the federal tax before the abatement and the provincial tax
+    before the provincial surtax (ON, PE) and the provincial tax reduction, like the other non-refundable tax credits.
+    Marginal rates are computed by difference on the full calculation for the next dollar of the given income type.
+    The marginal effective tax rate also counts the provincial levies and the OAS recovery tax. The OAS pension
+    itself must be included in the other income.
+
+Revised
+    2026-10-19
+*/
+
+import { FederalCode, ProvinceCode } from '../misc';
+import { getCapitalGainsTaxableAmount } from '../investments/non-registered-savings-plan';
+import { OAS } from '../pension/old-age-security';
+import { roundToPrecision } from '../utils';
+import { ELIGIBLE_DIVIDEND, NON_ELIGIBLE_DIVIDEND } from './dividend-credit';
+import { getFederalTaxAmount, getProvincialTaxAmount } from './income-tax';
+import { getProvincialLevies } from './provincial-levies';
+import { NO_HOUSEHOLD } from './provincial-tax-reductions';
+
+export interface IncomeBreakdown {
+    employmentIncome?: number;
+    interestIncome?: number;
+    // Any other income fully included in the taxable income (pension, RRIF withdrawals, rental, etc.)
+    otherIncome?: number;
+    // Actual amount of the dividends, before the gross-up
+    eligibleDividends?: number;
+    nonEligibleDividends?: number;
+    // Total realized capital gains, before the inclusion rate
+    capitalGains?: number;
+}
+
+export type IncomeType = keyof IncomeBreakdown;
+
+export interface IncomeTypeTax {
+    taxableIncome: number;
+    federalDividendTaxCredit: number;
+    provincialDividendTaxCredit: number;
+    federalTax: number;
+    provincialTax: number;
+    totalTax: number;
+}
+
+export function getTaxableIncome(income: IncomeBreakdown): number {
+    const {
+        employmentIncome = 0,
+        interestIncome = 0,
+        otherIncome = 0,
+        eligibleDividends = 0,
+        nonEligibleDividends = 0,
+        capitalGains = 0,
+    } = income;
+    return employmentIncome
+        + interestIncome
+        + otherIncome
+        + (eligibleDividends * ELIGIBLE_DIVIDEND.GROSS_UP)
+        + (nonEligibleDividends * NON_ELIGIBLE_DIVIDEND.GROSS_UP)
+        + getCapitalGainsTaxableAmount(capitalGains);
+}
+
+export function getDividendTaxCredit(code: ProvinceCode | FederalCode, income: IncomeBreakdown): number {
+    const { eligibleDividends = 0, nonEligibleDividends = 0 } = income;
+    return (eligibleDividends * ELIGIBLE_DIVIDEND.GROSS_UP * ELIGIBLE_DIVIDEND[code])
+        + (nonEligibleDividends * NON_ELIGIBLE_DIVIDEND.GROSS_UP * NON_ELIGIBLE_DIVIDEND[code]);
+}
+
+// The ON and PE surtaxes are computed on the tax net of the dividend tax credit
+export function getIncomeTypeTax(
+    provincialCode: ProvinceCode,
+    income: IncomeBreakdown,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): IncomeTypeTax {
+    const taxableIncome = getTaxableIncome(income);
+    const federalDividendTaxCredit = getDividendTaxCredit('CA', income);
+    const provincialDividendTaxCredit = getDividendTaxCredit(provincialCode, income);
+    const federalTax = getFederalTaxAmount(
+        provincialCode,
+        taxableIncome,
+        inflationRate,
+        yearsToInflate,
+        federalDividendTaxCredit,
+        taxYear,
+    );
+    const provincialTax = getProvincialTaxAmount(
+        provincialCode,
+        taxableIncome,
+        inflationRate,
+        yearsToInflate,
+        0,
+        taxYear,
+        NO_HOUSEHOLD,
+        provincialDividendTaxCredit,
+    );
+
+    return {
+        taxableIncome,
+        federalDividendTaxCredit,
+        provincialDividendTaxCredit,
+        federalTax,
+        provincialTax,
+        totalTax: federalTax + provincialTax,
+    };
+}
+
+const MARGINAL_INCOME = 1;
+
+function addIncome(income: IncomeBreakdown, incomeType: IncomeType, amount: number): IncomeBreakdown {
+    return { ...income, [incomeType]: (income[incomeType] ?? 0) + amount };
+}
+
+function getMarginalRate(
+    getAmount: (income: IncomeBreakdown) => number,
+    income: IncomeBreakdown,
+    incomeType: IncomeType,
+): number {
+    const marginalAmount = getAmount(addIncome(income, incomeType, MARGINAL_INCOME)) - getAmount(income);
+    return roundToPrecision(marginalAmount / MARGINAL_INCOME, 4);
+}
+
+export function getIncomeTypeMarginalRate(
+    provincialCode: ProvinceCode,
+    income: IncomeBreakdown,
+    incomeType: IncomeType,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): number {
+    const getTotalTax = (currentIncome: IncomeBreakdown): number => getIncomeTypeTax(
+        provincialCode,
+        currentIncome,
+        inflationRate,
+        yearsToInflate,
+        taxYear,
+    ).totalTax;
+    return getMarginalRate(getTotalTax, income, incomeType);
+}
+
+export function getMarginalEffectiveTaxRate(
+    provincialCode: ProvinceCode,
+    income: IncomeBreakdown,
+    incomeType: IncomeType,
+    oasPension = 0,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): number {
+    const getTotalReduction = (currentIncome: IncomeBreakdown): number => {
+        const { taxableIncome, totalTax } = getIncomeTypeTax(
+            provincialCode,
+            currentIncome,
+            inflationRate,
+            yearsToInflate,
+            taxYear,
+        );
+        const nonEmploymentIncome = taxableIncome - (currentIncome.employmentIncome ?? 0);
+        const levies = getProvincialLevies(
+            provincialCode,
+            taxableIncome,
+            inflationRate,
+            yearsToInflate,
+            nonEmploymentIncome,
+            taxYear,
+        );
+        const oasRepayment = OAS.getRepayment(taxableIncome, oasPension, inflationRate, yearsToInflate);
+        return totalTax + levies.total + oasRepayment;
+    };
+    return getMarginalRate(getTotalReduction, income, incomeType);
+}
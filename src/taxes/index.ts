@@ -1,4 +1,14 @@
+export * from './alternative-minimum-tax';
+export * from './child-benefits';
 export * from './dividend-credit';
 export * from './employment-insurance';
 export * from './income-tax';
+export * from './income-types';
+export * from './indexation';
+export * from './non-refundable-tax-credits';
+export * from './payroll-deductions';
+export * from './pension-income-splitting';
+export * from './provincial-levies';
+export * from './provincial-tax-reductions';
 export * from './quebec-parental-insurance-plan';
+export * from './refundable-credits';
@@ -0,0 +1,146 @@
+/*
+Sources
+    https://www.canada.ca/en/revenue-agency/services/tax/individuals/frequently-asked-questions-individuals/
+        adjustment-personal-income-tax-benefit-amounts.html
+    https://www.taxtips.ca/tax-rates/indexation-factors.htm
+
+Notes
+    A factor is applied to the amounts of the previous year, e.g. the 2026 factor indexes the 2025 amounts.
+    Past the published factors, indexed jurisdictions follow the projected inflation rate and the others stay flat.
+    MB froze its brackets and basic personal amount from 2025. NS started indexing in 2025 and PE indexed its
+    amounts by legislated increases before that.
+
+Revised
+    2026-10-19
+*/
+
+import { ByJurisdiction, FederalCode, ProvinceCode } from '../misc';
+
+export interface Indexation {
+    FACTORS: { [year: number]: number };
+    INDEXED: boolean;
+}
+
+const CA_FACTORS = {
+    2024: 0.047,
+    2025: 0.027,
+    2026: 0.02,
+};
+
+export const INDEXATION: ByJurisdiction<Indexation> = {
+    CA: {
+        FACTORS: CA_FACTORS,
+        INDEXED: true,
+    },
+    AB: {
+        FACTORS: {
+            2024: 0.042,
+            2025: 0.02,
+            2026: 0.02,
+        },
+        INDEXED: true,
+    },
+    BC: {
+        FACTORS: {
+            2024: 0.054,
+            2025: 0.028,
+            2026: 0.022,
+        },
+        INDEXED: true,
+    },
+    MB: {
+        FACTORS: {
+            2025: 0,
+            2026: 0,
+        },
+        INDEXED: false,
+    },
+    NB: {
+        FACTORS: {
+            2024: 0.045,
+            2025: 0.027,
+        },
+        INDEXED: true,
+    },
+    NL: {
+        FACTORS: {
+            2024: 0.031,
+        },
+        INDEXED: true,
+    },
+    NS: {
+        FACTORS: {
+            2024: 0,
+            2025: 0.031,
+        },
+        INDEXED: true,
+    },
+    NT: {
+        FACTORS: CA_FACTORS,
+        INDEXED: true,
+    },
+    NU: {
+        FACTORS: CA_FACTORS,
+        INDEXED: true,
+    },
+    ON: {
+        FACTORS: {
+            2024: 0.045,
+            2025: 0.028,
+            2026: 0.019,
+        },
+        INDEXED: true,
+    },
+    PE: {
+        FACTORS: {
+            2024: 0,
+        },
+        INDEXED: true,
+    },
+    QC: {
+        FACTORS: {
+            2024: 0.0508,
+            2025: 0.0285,
+            2026: 0.0205,
+        },
+        INDEXED: true,
+    },
+    SK: {
+        FACTORS: {
+            2024: 0.042,
+            2025: 0.027,
+        },
+        INDEXED: true,
+    },
+    YT: {
+        FACTORS: CA_FACTORS,
+        INDEXED: true,
+    },
+};
+
+export function getIndexationFactor(
+    code: ProvinceCode | FederalCode,
+    inflationRate: number,
+    yearsToInflate: number,
+    baseYear: number,
+): number {
+    if (yearsToInflate <= 0) {
+        return 1;
+    }
+    const { FACTORS, INDEXED } = INDEXATION[code];
+    const projectedFactor = INDEXED ? inflationRate : 0;
+    return Array.from({ length: yearsToInflate }, (_, index) => baseYear + index + 1)
+        .reduce((previous, year) => previous * (1 + (FACTORS[year] ?? projectedFactor)), 1);
+}
+
+// Amounts published up to latestYear are used as published, later tax years are indexed from latestYear
+export function getPublishedAmountIndexationFactor(
+    code: ProvinceCode | FederalCode,
+    inflationRate: number,
+    yearsToInflate: number,
+    latestYear: number,
+    taxYear = latestYear,
+): number {
+    const baseYear = Math.min(taxYear, latestYear);
+    return getIndexationFactor(code, inflationRate, yearsToInflate + taxYear - baseYear, baseYear);
+}
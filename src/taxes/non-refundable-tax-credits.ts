@@ -0,0 +1,339 @@
+/*
+Sources
+    https://www.canada.ca/en/revenue-agency/services/forms-publications/td1-personal-tax-credits-returns.html
+    https://www.taxtips.ca/nrcredits/tax-credits-2025-base.htm
+    QC: https://www.revenuquebec.ca/en/citizens/income-tax-return/completing-your-income-tax-return/
+
+Notes
+    The basic personal amount is not part of these credits, it is applied by the income tax functions.
+    Only the base CPP/QPP contributions are credited, the enhanced contributions are deductible.
+    QC combines the age and retirement income amounts with a reduction based on family income, applied to the age
+    amount first. The transfer of the unused amounts between spouses is not modelled.
+    The federal pension income amount and most provincial ones are fixed amounts, they are not indexed.
+    Amounts are the 2025 amounts. Earlier tax years are not supported, later ones are indexed from 2025.
+
+Revised
+    2026-10-19
+*/
+
+import { ByJurisdiction, FEDERAL_CODE, FederalCode, ProvinceCode } from '../misc';
+import { clamp } from '../utils';
+import { getFederalTaxCreditRate, getProvincialTaxCreditRate } from './income-tax';
+import { getIndexationFactor } from './indexation';
+
+export interface AgeAmount {
+    AMOUNT: number;
+    THRESHOLD: number;
+    REDUCTION_RATE: number;
+}
+
+export interface SpouseAmount {
+    AMOUNT: number;
+    // Net income the spouse or dependant can earn before the amount is reduced
+    THRESHOLD: number;
+}
+
+export interface NonRefundableTaxCredit {
+    AGE: AgeAmount;
+    PENSION: number;
+    // The pension income amount is indexed like the other amounts, it is a fixed amount otherwise
+    PENSION_INDEXED?: boolean;
+    SPOUSE: SpouseAmount;
+    DISABILITY: number;
+    CANADA_EMPLOYMENT: number;
+    PAYROLL_CONTRIBUTIONS: boolean;
+    // The age and pension amounts are reduced together by the AGE reduction of the family net income
+    FAMILY_INCOME_REDUCTION?: boolean;
+}
+
+export type NonRefundableTaxCredits = ByJurisdiction<NonRefundableTaxCredit>;
+
+export const AGE_AMOUNT_MIN_AGE = 65;
+
+// Tax year of the amounts of NON_REFUNDABLE_TAX_CREDITS
+export const NON_REFUNDABLE_TAX_CREDITS_YEAR = 2025;
+
+export const NON_REFUNDABLE_TAX_CREDITS: NonRefundableTaxCredits = {
+    CA: {
+        AGE: { AMOUNT: 9028, THRESHOLD: 45522, REDUCTION_RATE: 0.15 },
+        PENSION: 2000,
+        SPOUSE: { AMOUNT: 16129, THRESHOLD: 0 },
+        DISABILITY: 10138,
+        CANADA_EMPLOYMENT: 1471,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    AB: {
+        AGE: { AMOUNT: 6221, THRESHOLD: 46308, REDUCTION_RATE: 0.15 },
+        PENSION: 1719,
+        PENSION_INDEXED: true,
+        SPOUSE: { AMOUNT: 22323, THRESHOLD: 0 },
+        DISABILITY: 17661,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    BC: {
+        AGE: { AMOUNT: 5799, THRESHOLD: 43169, REDUCTION_RATE: 0.15 },
+        PENSION: 1000,
+        SPOUSE: { AMOUNT: 11073, THRESHOLD: 1107 },
+        DISABILITY: 9699,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    MB: {
+        AGE: { AMOUNT: 3728, THRESHOLD: 27749, REDUCTION_RATE: 0.15 },
+        PENSION: 1000,
+        SPOUSE: { AMOUNT: 9134, THRESHOLD: 0 },
+        DISABILITY: 6180,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    NB: {
+        AGE: { AMOUNT: 5932, THRESHOLD: 44186, REDUCTION_RATE: 0.15 },
+        PENSION: 1000,
+        SPOUSE: { AMOUNT: 10230, THRESHOLD: 1023 },
+        DISABILITY: 9188,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    NL: {
+        AGE: { AMOUNT: 7064, THRESHOLD: 38376, REDUCTION_RATE: 0.15 },
+        PENSION: 1000,
+        SPOUSE: { AMOUNT: 9043, THRESHOLD: 904 },
+        DISABILITY: 7064,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    NS: {
+        AGE: { AMOUNT: 5087, THRESHOLD: 30828, REDUCTION_RATE: 0.15 },
+        PENSION: 1173,
+        PENSION_INDEXED: true,
+        SPOUSE: { AMOUNT: 8744, THRESHOLD: 874 },
+        DISABILITY: 7341,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    NT: {
+        AGE: { AMOUNT: 8727, THRESHOLD: 45522, REDUCTION_RATE: 0.15 },
+        PENSION: 1000,
+        SPOUSE: { AMOUNT: 17842, THRESHOLD: 0 },
+        DISABILITY: 14160,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    NU: {
+        AGE: { AMOUNT: 20478, THRESHOLD: 45522, REDUCTION_RATE: 0.15 },
+        PENSION: 2000,
+        SPOUSE: { AMOUNT: 19274, THRESHOLD: 1927 },
+        DISABILITY: 16088,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    ON: {
+        AGE: { AMOUNT: 6223, THRESHOLD: 46330, REDUCTION_RATE: 0.15 },
+        PENSION: 1762,
+        PENSION_INDEXED: true,
+        SPOUSE: { AMOUNT: 10823, THRESHOLD: 1082 },
+        DISABILITY: 10298,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    PE: {
+        AGE: { AMOUNT: 6510, THRESHOLD: 36600, REDUCTION_RATE: 0.15 },
+        PENSION: 1000,
+        SPOUSE: { AMOUNT: 12103, THRESHOLD: 1210 },
+        DISABILITY: 6890,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    QC: {
+        AGE: { AMOUNT: 3906, THRESHOLD: 42090, REDUCTION_RATE: 0.1875 },
+        PENSION: 3374,
+        PENSION_INDEXED: true,
+        SPOUSE: { AMOUNT: 0, THRESHOLD: 0 },
+        DISABILITY: 3774,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: false,
+        FAMILY_INCOME_REDUCTION: true,
+    },
+    SK: {
+        AGE: { AMOUNT: 5616, THRESHOLD: 41818, REDUCTION_RATE: 0.15 },
+        PENSION: 1000,
+        SPOUSE: { AMOUNT: 18991, THRESHOLD: 1899 },
+        DISABILITY: 10405,
+        CANADA_EMPLOYMENT: 0,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+    YT: {
+        AGE: { AMOUNT: 9028, THRESHOLD: 45522, REDUCTION_RATE: 0.15 },
+        PENSION: 2000,
+        SPOUSE: { AMOUNT: 16129, THRESHOLD: 0 },
+        DISABILITY: 10138,
+        CANADA_EMPLOYMENT: 1471,
+        PAYROLL_CONTRIBUTIONS: true,
+    },
+};
+
+export interface TaxCreditsProfile {
+    age: number;
+    netIncome: number;
+    // Income eligible for the pension income amount
+    pensionIncome?: number;
+    spouseNetIncome?: number;
+    // Only used when there is no spouse
+    eligibleDependantNetIncome?: number;
+    disabled?: boolean;
+    employmentIncome?: number;
+    // Base CPP/QPP contributions, excluding the enhancements
+    pensionPlanContributions?: number;
+    employmentInsurancePremiums?: number;
+    parentalInsurancePremiums?: number;
+}
+
+export type TaxCreditType =
+    'age'
+    | 'pension'
+    | 'spouse'
+    | 'eligibleDependant'
+    | 'disability'
+    | 'canadaEmployment'
+    | 'pensionPlan'
+    | 'employmentInsurance'
+    | 'parentalInsurance';
+
+export interface TaxCreditLine {
+    amount: number;
+    credit: number;
+}
+
+export interface TaxCredits {
+    lines: { [key in TaxCreditType]: TaxCreditLine };
+    total: number;
+}
+
+function getAgeAmount(ageAmount: AgeAmount, profile: TaxCreditsProfile, indexationFactor: number): number {
+    if (profile.age < AGE_AMOUNT_MIN_AGE) {
+        return 0;
+    }
+    const amount = ageAmount.AMOUNT * indexationFactor;
+    const threshold = ageAmount.THRESHOLD * indexationFactor;
+    return Math.max(amount - (Math.max(profile.netIncome - threshold, 0) * ageAmount.REDUCTION_RATE), 0);
+}
+
+function getFamilyReducedAmounts(
+    credits: NonRefundableTaxCredit,
+    profile: TaxCreditsProfile,
+    indexationFactor: number,
+): { age: number; pension: number } {
+    const { AMOUNT, THRESHOLD, REDUCTION_RATE } = credits.AGE;
+    const ageAmount = profile.age < AGE_AMOUNT_MIN_AGE ? 0 : AMOUNT * indexationFactor;
+    const pensionAmount = getPensionAmount(credits, profile, indexationFactor);
+    const familyNetIncome = profile.netIncome + (profile.spouseNetIncome ?? 0);
+    const reduction = Math.max(familyNetIncome - (THRESHOLD * indexationFactor), 0) * REDUCTION_RATE;
+    return {
+        age: Math.max(ageAmount - reduction, 0),
+        pension: Math.max(pensionAmount - Math.max(reduction - ageAmount, 0), 0),
+    };
+}
+
+function getSpouseAmount(spouseAmount: SpouseAmount, netIncome: number | undefined, indexationFactor: number): number {
+    if (netIncome === undefined) {
+        return 0;
+    }
+    const amount = spouseAmount.AMOUNT * indexationFactor;
+    const threshold = spouseAmount.THRESHOLD * indexationFactor;
+    return clamp(amount + threshold - netIncome, 0, amount);
+}
+
+function getCappedAmount(maxAmount: number, indexationFactor: number, income = 0): number {
+    return clamp(income, 0, maxAmount * indexationFactor);
+}
+
+function getPensionAmount(
+    credits: NonRefundableTaxCredit,
+    profile: TaxCreditsProfile,
+    indexationFactor: number,
+): number {
+    return getCappedAmount(credits.PENSION, credits.PENSION_INDEXED ? indexationFactor : 1, profile.pensionIncome);
+}
+
+function getCreditsIndexationFactor(
+    code: ProvinceCode | FederalCode,
+    inflationRate: number,
+    yearsToInflate: number,
+    taxYear?: number,
+): number {
+    if (taxYear !== undefined && taxYear < NON_REFUNDABLE_TAX_CREDITS_YEAR) {
+        throw new RangeError(`No non-refundable tax credits before ${NON_REFUNDABLE_TAX_CREDITS_YEAR}, got ${taxYear}`);
+    }
+    const baseYear = NON_REFUNDABLE_TAX_CREDITS_YEAR;
+    const yearsAfterBaseYear = Math.max((taxYear ?? baseYear) - baseYear, 0);
+    return getIndexationFactor(code, inflationRate, yearsToInflate + yearsAfterBaseYear, baseYear);
+}
+
+function getCreditRate(code: ProvinceCode | FederalCode, yearsToInflate: number, taxYear?: number): number {
+    return code === FEDERAL_CODE
+        ? getFederalTaxCreditRate(yearsToInflate, taxYear)
+        : getProvincialTaxCreditRate(code, yearsToInflate, taxYear);
+}
+
+export function getTaxCredits(
+    code: ProvinceCode | FederalCode,
+    profile: TaxCreditsProfile,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): TaxCredits {
+    const credits = NON_REFUNDABLE_TAX_CREDITS[code];
+    const rate = getCreditRate(code, yearsToInflate, taxYear);
+    const indexationFactor = getCreditsIndexationFactor(code, inflationRate, yearsToInflate, taxYear);
+    const hasSpouse = profile.spouseNetIncome !== undefined;
+    const getPayrollContribution = (contribution = 0): number => (credits.PAYROLL_CONTRIBUTIONS ? contribution : 0);
+    const { age, pension } = credits.FAMILY_INCOME_REDUCTION
+        ? getFamilyReducedAmounts(credits, profile, indexationFactor)
+        : {
+            age: getAgeAmount(credits.AGE, profile, indexationFactor),
+            pension: getPensionAmount(credits, profile, indexationFactor),
+        };
+
+    const amounts: { [key in TaxCreditType]: number } = {
+        age,
+        pension,
+        spouse: getSpouseAmount(credits.SPOUSE, profile.spouseNetIncome, indexationFactor),
+        eligibleDependant: hasSpouse
+            ? 0
+            : getSpouseAmount(credits.SPOUSE, profile.eligibleDependantNetIncome, indexationFactor),
+        disability: profile.disabled ? credits.DISABILITY * indexationFactor : 0,
+        canadaEmployment: getCappedAmount(credits.CANADA_EMPLOYMENT, indexationFactor, profile.employmentIncome),
+        pensionPlan: getPayrollContribution(profile.pensionPlanContributions),
+        employmentInsurance: getPayrollContribution(profile.employmentInsurancePremiums),
+        parentalInsurance: getPayrollContribution(profile.parentalInsurancePremiums),
+    };
+
+    const types = Object.keys(amounts) as TaxCreditType[];
+    const lines = types.reduce((previous, type) => ({
+        ...previous,
+        [type]: { amount: amounts[type], credit: amounts[type] * rate },
+    }), {} as TaxCredits['lines']);
+    const total = types.reduce((previous, type) => previous + lines[type].credit, 0);
+
+    return { lines, total };
+}
+
+export function getFederalTaxCredits(
+    profile: TaxCreditsProfile,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): TaxCredits {
+    return getTaxCredits(FEDERAL_CODE, profile, inflationRate, yearsToInflate, taxYear);
+}
+
+export function getProvincialTaxCredits(
+    province: ProvinceCode,
+    profile: TaxCreditsProfile,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+): TaxCredits {
+    return getTaxCredits(province, profile, inflationRate, yearsToInflate, taxYear);
+}
@@ -0,0 +1,202 @@
+/*
+Sources
+    https://www.canada.ca/en/revenue-agency/services/forms-publications/payroll/t4127-payroll-deductions-formulas.html
+    https://www.canada.ca/en/revenue-agency/services/forms-publications/td1-personal-tax-credits-returns.html
+    QC: https://www.revenuquebec.ca/en/businesses/source-deductions-and-employer-contributions/
+
+Notes
+    Follows the annualized approach of the T4127 (option 1): the pay is annualized, the annual tax is computed on the
+    annual taxable income (A) and divided by the number of pay periods (P).
+    The enhanced CPP/QPP contributions are deducted from the taxable income (F2), the base contributions and the
+    EI and QPIP premiums are credited at the lowest rate (K2), like the Canada employment amount (K4).
+    The TD1 claim amounts include the basic personal amount, they default to the basic personal amounts.
+    The contributions and premiums are spread evenly over the year, the maximums are never reached before the last
+    pay period. The QC tax uses the QC brackets instead of the TP-1015.F formula.
+    The EI and QPIP costs of a salary include the employer premiums, net of the employee EI premiums refund.
+
+Revised
+    2026-10-19
+*/
+
+import { ProvinceCode } from '../misc';
+import { CPP } from '../pension/canada-pension-plan';
+import { QPP } from '../pension/quebec-pension-plan';
+import { EiPremiums, getEiPremiums } from './employment-insurance';
+import {
+    getFederalBasePersonalAmount,
+    getFederalBaseTaxAmount,
+    getFederalTaxCreditRate,
+    getIndexedAmount,
+    getProvincialAbatement,
+    getProvincialBaseTaxAmount,
+    getProvincialSurtaxAmount,
+    getProvincialTaxCreditRate,
+    getProvincialTaxReduction,
+    getTaxBracketsByYear,
+} from './income-tax';
+import { getFederalTaxCredits, getProvincialTaxCredits, TaxCreditsProfile } from './non-refundable-tax-credits';
+import { getProvincialLevies } from './provincial-levies';
+import { getQpipPremiums, QpipPremiums } from './quebec-parental-insurance-plan';
+
+const MONTHS_PER_YEAR = 12;
+
+export type PayFrequency = 'WEEKLY' | 'BIWEEKLY' | 'SEMI_MONTHLY' | 'MONTHLY';
+
+export const PAY_PERIODS: { [key in PayFrequency]: number } = {
+    WEEKLY: 52,
+    BIWEEKLY: 26,
+    SEMI_MONTHLY: 24,
+    MONTHLY: 12,
+};
+
+// Total claim amounts of the federal TD1 and provincial TD1 forms
+export interface ClaimAmounts {
+    federal?: number;
+    provincial?: number;
+}
+
+export interface PayrollContributions {
+    // Base and enhanced CPP/QPP contributions
+    pensionPlan: number;
+    pensionPlanBase: number;
+    pensionPlanEnhancement: number;
+    employmentInsurance: number;
+    parentalInsurance: number;
+}
+
+export interface PayrollDeductions {
+    payPeriods: number;
+    grossPay: number;
+    pensionPlan: number;
+    employmentInsurance: number;
+    parentalInsurance: number;
+    federalTax: number;
+    provincialTax: number;
+    totalDeductions: number;
+    netPay: number;
+}
+
+export interface PayrollInsuranceCosts {
+    employmentInsurance: EiPremiums;
+    parentalInsurance: QpipPremiums;
+    employee: number;
+    employer: number;
+    total: number;
+}
+
+export function getPayrollInsuranceCosts(
+    province: ProvinceCode,
+    annualSalary: number,
+    taxYear?: number,
+): PayrollInsuranceCosts {
+    const employmentInsurance = getEiPremiums(province, annualSalary, taxYear);
+    const parentalInsurance = province === 'QC'
+        ? getQpipPremiums(annualSalary, taxYear)
+        : { insurableEarnings: 0, employee: 0, employer: 0 };
+    const employee = employmentInsurance.employee - employmentInsurance.refund + parentalInsurance.employee;
+    const employer = employmentInsurance.employer + parentalInsurance.employer;
+
+    return {
+        employmentInsurance,
+        parentalInsurance,
+        employee,
+        employer,
+        total: employee + employer,
+    };
+}
+
+export function getPayrollContributions(
+    province: ProvinceCode,
+    annualSalary: number,
+    taxYear?: number,
+): PayrollContributions {
+    const plan = province === 'QC' ? QPP : CPP;
+    const contributions = plan.getContributions(annualSalary, MONTHS_PER_YEAR, taxYear);
+    const { employmentInsurance, parentalInsurance } = getPayrollInsuranceCosts(province, annualSalary, taxYear);
+
+    return {
+        pensionPlan: contributions.employee,
+        pensionPlanBase: contributions.base,
+        pensionPlanEnhancement: contributions.firstEnhancement + contributions.secondEnhancement,
+        employmentInsurance: employmentInsurance.employee,
+        parentalInsurance: parentalInsurance.employee,
+    };
+}
+
+// The personal amounts (age, spouse, disability) are part of the TD1 claim amounts
+function getPayrollCreditsProfile(annualSalary: number, contributions: PayrollContributions): TaxCreditsProfile {
+    return {
+        age: 0,
+        netIncome: annualSalary - contributions.pensionPlanEnhancement,
+        employmentIncome: annualSalary,
+        pensionPlanContributions: contributions.pensionPlanBase,
+        employmentInsurancePremiums: contributions.employmentInsurance,
+        parentalInsurancePremiums: contributions.parentalInsurance,
+    };
+}
+
+export function getAnnualFederalWithholding(
+    province: ProvinceCode,
+    annualSalary: number,
+    claimAmounts: ClaimAmounts = {},
+    taxYear?: number,
+): number {
+    const contributions = getPayrollContributions(province, annualSalary, taxYear);
+    const taxableIncome = Math.max(annualSalary - contributions.pensionPlanEnhancement, 0);
+    const credits = getFederalTaxCredits(getPayrollCreditsProfile(annualSalary, contributions), 0, 0, taxYear);
+
+    const claimAmount = claimAmounts.federal ?? getFederalBasePersonalAmount(taxableIncome, 0, 0, taxYear);
+    const claimCredit = claimAmount * getFederalTaxCreditRate(0, taxYear);
+    const baseTax = getFederalBaseTaxAmount(taxableIncome, 0, 0, taxYear);
+    const federalTax = Math.max(baseTax - claimCredit - credits.total, 0);
+    return federalTax - getProvincialAbatement(province, federalTax, taxYear);
+}
+
+export function getAnnualProvincialWithholding(
+    province: ProvinceCode,
+    annualSalary: number,
+    claimAmounts: ClaimAmounts = {},
+    taxYear?: number,
+): number {
+    const contributions = getPayrollContributions(province, annualSalary, taxYear);
+    const taxableIncome = Math.max(annualSalary - contributions.pensionPlanEnhancement, 0);
+    const profile = getPayrollCreditsProfile(annualSalary, contributions);
+    const credits = getProvincialTaxCredits(province, profile, 0, 0, taxYear);
+
+    const { BASE_TAX_CREDIT } = getTaxBracketsByYear(taxYear)[province];
+    const claimAmount = claimAmounts.provincial ?? getIndexedAmount(province, BASE_TAX_CREDIT, 0, 0, taxYear);
+    const claimCredit = claimAmount * getProvincialTaxCreditRate(province, 0, taxYear);
+    const baseTax = getProvincialBaseTaxAmount(province, taxableIncome, 0, 0, taxYear);
+    const tax = Math.max(baseTax - claimCredit - credits.total, 0);
+    const provincialTax = tax + getProvincialSurtaxAmount(province, tax, 0, 0, taxYear);
+    const reduction = getProvincialTaxReduction(province, taxableIncome, provincialTax, 0, 0, taxYear);
+    const levies = getProvincialLevies(province, taxableIncome, 0, 0, 0, taxYear);
+    return Math.max(provincialTax - reduction, 0) + levies.total;
+}
+
+export function getPayrollDeductions(
+    province: ProvinceCode,
+    annualSalary: number,
+    payFrequency: PayFrequency,
+    claimAmounts: ClaimAmounts = {},
+    taxYear?: number,
+): PayrollDeductions {
+    const payPeriods = PAY_PERIODS[payFrequency];
+    const contributions = getPayrollContributions(province, annualSalary, taxYear);
+    const federalTax = getAnnualFederalWithholding(province, annualSalary, claimAmounts, taxYear);
+    const provincialTax = getAnnualProvincialWithholding(province, annualSalary, claimAmounts, taxYear);
+    const annualDeductions = contributions.pensionPlan + contributions.employmentInsurance
+        + contributions.parentalInsurance + federalTax + provincialTax;
+
+    return {
+        payPeriods,
+        grossPay: annualSalary / payPeriods,
+        pensionPlan: contributions.pensionPlan / payPeriods,
+        employmentInsurance: contributions.employmentInsurance / payPeriods,
+        parentalInsurance: contributions.parentalInsurance / payPeriods,
+        federalTax: federalTax / payPeriods,
+        provincialTax: provincialTax / payPeriods,
+        totalDeductions: annualDeductions / payPeriods,
+        netPay: (annualSalary - annualDeductions) / payPeriods,
+    };
+}
@@ -0,0 +1,188 @@
+/*
+Sources
+    https://www.canada.ca/en/revenue-agency/services/tax/individuals/topics/pension-income-splitting.html
+    https://www.canada.ca/en/revenue-agency/services/forms-publications/forms/t1032.html
+    https://www.canada.ca/en/services/benefits/publicpensions/cpp/cpp-benefit/pension-sharing.html
+
+Notes
+    Up to half of the eligible pension income of a spouse can be transferred to the other spouse.
+    Life annuity payments from a registered pension plan are eligible at any age, RRIF, LIF and annuity payments
+    only from 65. The transferred amount keeps its type and is eligible for the pension amount of the receiving
+    spouse under the same age rule.
+    With CPP sharing, both CPP/QPP pensions are shared equally, as if the whole contributory period was shared.
+    The OAS recovery tax is deducted from the taxable income and added to the tax of each spouse.
+    The optimal transfer is searched by TRANSFER_STEP, then by the dollar around the best step.
+
+Revised
+    2026-10-19
+*/
+
+import { ProvinceCode } from '../misc';
+import { OAS } from '../pension/old-age-security';
+import { getTotalTaxAmount } from './income-tax';
+import { AGE_AMOUNT_MIN_AGE, getFederalTaxCredits, getProvincialTaxCredits } from './non-refundable-tax-credits';
+
+const MAX_TRANSFER_RATE = 0.5;
+const TRANSFER_STEP = 100;
+
+export interface EligiblePensionIncome {
+    // Life annuity payments from a registered pension plan (employer DB pension)
+    definedBenefit?: number;
+    // RRIF, LIF and registered annuity payments
+    retirementIncomeFund?: number;
+}
+
+export interface SpouseIncome {
+    age: number;
+    // Income not eligible for splitting (employment, interest, etc.), without the OAS and CPP/QPP pensions
+    otherIncome: number;
+    pensionIncome?: EligiblePensionIncome;
+    cppPension?: number;
+    oasPension?: number;
+}
+
+export interface SpouseTax {
+    netIncome: number;
+    pensionCreditIncome: number;
+    oasRepayment: number;
+    totalTax: number;
+}
+
+export interface PensionIncomeSplitting {
+    // Eligible pension income transferred from the first spouse to the second, negative when transferred to the first
+    transfer: number;
+    spouses: [SpouseTax, SpouseTax];
+    taxWithoutSplitting: number;
+    taxWithSplitting: number;
+    taxSaved: number;
+}
+
+export interface SplittingOptions {
+    cppSharing?: boolean;
+    inflationRate?: number;
+    yearsToInflate?: number;
+    taxYear?: number;
+}
+
+function getEligiblePensionIncome(spouse: SpouseIncome, age = spouse.age): number {
+    const { definedBenefit = 0, retirementIncomeFund = 0 } = spouse.pensionIncome ?? {};
+    return definedBenefit + (age >= AGE_AMOUNT_MIN_AGE ? retirementIncomeFund : 0);
+}
+
+export function getMaxPensionIncomeTransfer(spouse: SpouseIncome): number {
+    return getEligiblePensionIncome(spouse) * MAX_TRANSFER_RATE;
+}
+
+function getSpouseTax(
+    provincialCode: ProvinceCode,
+    spouse: SpouseIncome,
+    netIncome: number,
+    pensionCreditIncome: number,
+    spouseNetIncome: number,
+    options: SplittingOptions,
+): SpouseTax {
+    const { inflationRate = 0, yearsToInflate = 0, taxYear } = options;
+    const oasRepayment = OAS.getRepayment(netIncome, spouse.oasPension ?? 0, inflationRate, yearsToInflate);
+    const profile = { age: spouse.age, netIncome, pensionIncome: pensionCreditIncome, spouseNetIncome };
+    const federalCredits = getFederalTaxCredits(profile, inflationRate, yearsToInflate, taxYear);
+    const provincialCredits = getProvincialTaxCredits(provincialCode, profile, inflationRate, yearsToInflate, taxYear);
+    const tax = getTotalTaxAmount(
+        provincialCode,
+        netIncome - oasRepayment,
+        inflationRate,
+        yearsToInflate,
+        taxYear,
+        federalCredits.total,
+        provincialCredits.total,
+    );
+
+    return {
+        netIncome,
+        pensionCreditIncome,
+        oasRepayment,
+        totalTax: tax + oasRepayment,
+    };
+}
+
+export function getHouseholdTax(
+    provincialCode: ProvinceCode,
+    spouses: [SpouseIncome, SpouseIncome],
+    transfer: number,
+    options: SplittingOptions = {},
+): [SpouseTax, SpouseTax] {
+    const [first, second] = spouses;
+    const sharedCppPension = ((first.cppPension ?? 0) + (second.cppPension ?? 0)) / 2;
+    const getCppPension = (spouse: SpouseIncome): number => (
+        options.cppSharing ? sharedCppPension : spouse.cppPension ?? 0
+    );
+
+    // The transferred amount is taken proportionally from each type of eligible pension income
+    const transferor = transfer >= 0 ? first : second;
+    const transferorEligibleIncome = getEligiblePensionIncome(transferor);
+    const transferRate = transferorEligibleIncome ? Math.abs(transfer) / transferorEligibleIncome : 0;
+    const getReceivedCreditIncome = (spouse: SpouseIncome): number => (
+        spouse === transferor ? 0 : getEligiblePensionIncome(transferor, spouse.age) * transferRate
+    );
+
+    const netIncomes = [first, second].map((spouse, index) => {
+        const { definedBenefit = 0, retirementIncomeFund = 0 } = spouse.pensionIncome ?? {};
+        const transferred = index === 0 ? -transfer : transfer;
+        return spouse.otherIncome + definedBenefit + retirementIncomeFund + getCppPension(spouse)
+            + (spouse.oasPension ?? 0) + transferred;
+    });
+    const pensionCreditIncomes = [first, second].map((spouse) => (
+        (getEligiblePensionIncome(spouse) * (spouse === transferor ? 1 - transferRate : 1))
+            + getReceivedCreditIncome(spouse)
+    ));
+
+    return [
+        getSpouseTax(provincialCode, first, netIncomes[0], pensionCreditIncomes[0], netIncomes[1], options),
+        getSpouseTax(provincialCode, second, netIncomes[1], pensionCreditIncomes[1], netIncomes[0], options),
+    ];
+}
+
+function getTotalHouseholdTax(spouseTaxes: [SpouseTax, SpouseTax]): number {
+    return spouseTaxes[0].totalTax + spouseTaxes[1].totalTax;
+}
+
+function getTransfers(min: number, max: number, step: number): number[] {
+    const count = Math.floor((max - min) / step);
+    return [...Array.from({ length: count + 1 }, (_, index) => min + (index * step)), max];
+}
+
+export function getOptimalPensionIncomeSplitting(
+    provincialCode: ProvinceCode,
+    spouses: [SpouseIncome, SpouseIncome],
+    options: SplittingOptions = {},
+): PensionIncomeSplitting {
+    const getTax = (transfer: number): number => getTotalHouseholdTax(
+        getHouseholdTax(provincialCode, spouses, transfer, options),
+    );
+    // Not splitting is kept on ties
+    const getBestTransfer = (transfers: number[]): number => transfers
+        .map((transfer) => ({ transfer, tax: getTax(transfer) }))
+        .reduce((best, current) => (current.tax < best.tax ? current : best), { transfer: 0, tax: getTax(0) })
+        .transfer;
+
+    const minTransfer = -getMaxPensionIncomeTransfer(spouses[1]);
+    const maxTransfer = getMaxPensionIncomeTransfer(spouses[0]);
+    const bestStep = getBestTransfer(getTransfers(minTransfer, maxTransfer, TRANSFER_STEP));
+    const fineTransfers = getTransfers(
+        Math.max(bestStep - TRANSFER_STEP, minTransfer),
+        Math.min(bestStep + TRANSFER_STEP, maxTransfer),
+        1,
+    );
+    const transfer = getBestTransfer([bestStep, ...fineTransfers]);
+
+    const spouseTaxes = getHouseholdTax(provincialCode, spouses, transfer, options);
+    const taxWithoutSplitting = getTax(0);
+    const taxWithSplitting = getTotalHouseholdTax(spouseTaxes);
+
+    return {
+        transfer,
+        spouses: spouseTaxes,
+        taxWithoutSplitting,
+        taxWithSplitting,
+        taxSaved: taxWithoutSplitting - taxWithSplitting,
+    };
+}
@@ -0,0 +1,246 @@
+/*
+Sources
+    ON: https://www.ontario.ca/page/ontario-health-premium
+    QC: https://www.revenuquebec.ca/en/citizens/income-tax-return/completing-your-income-tax-return/
+        completing-your-return/calculating-your-income-tax/line-446/
+
+Notes
+    Levies are amounts added to the provincial tax, not reduced by the non-refundable tax credits.
+    The Ontario Health Premium is not indexed. Each premium step is phased in, hence the zero-rate brackets.
+    The QC health services fund contribution only applies to income other than employment income.
+    The QC health contribution was abolished in 2017, the health services fund contribution is the only QC levy.
+    Indexed levies are the 2025 amounts, indexed with the factors of the province for later years. The QC health
+    services fund thresholds are kept by year from 2023, earlier years use the 2023 thresholds.
+
+Revised
+    2026-10-19
+*/
+
+import { ByProvince, ProvinceCode } from '../misc';
+import { getByYear } from '../utils/collections';
+import { getFederalTaxAmount, getProvincialTaxAmount, getTaxAmount, Rate } from './income-tax';
+import { getPublishedAmountIndexationFactor } from './indexation';
+
+// Year of the amounts of the levies
+const LEVIES_YEAR = 2025;
+
+export type LevyBase = 'TAXABLE_INCOME' | 'NON_EMPLOYMENT_INCOME';
+
+export interface ProvincialLevy {
+    CODE: string;
+    BASE: LevyBase;
+    INDEXED: boolean;
+    RATES: Rate[];
+    // Rates of the published past years, RATES holds the current year
+    RATES_BY_YEAR?: { [year: number]: Rate[] };
+}
+
+export interface ProvincialLevies {
+    lines: { [code: string]: number };
+    total: number;
+}
+
+export interface TotalTaxDetails {
+    federalTax: number;
+    provincialTax: number;
+    levies: ProvincialLevies;
+    totalTax: number;
+}
+
+export const ONTARIO_HEALTH_PREMIUM: ProvincialLevy = {
+    CODE: 'ONTARIO_HEALTH_PREMIUM',
+    BASE: 'TAXABLE_INCOME',
+    INDEXED: false,
+    RATES: [{
+        FROM: 0,
+        TO: 20000,
+        RATE: 0,
+    }, {
+        FROM: 20000,
+        TO: 25000,
+        RATE: 0.06,
+    }, {
+        FROM: 25000,
+        TO: 36000,
+        RATE: 0,
+    }, {
+        FROM: 36000,
+        TO: 38500,
+        RATE: 0.06,
+    }, {
+        FROM: 38500,
+        TO: 48000,
+        RATE: 0,
+    }, {
+        FROM: 48000,
+        TO: 48600,
+        RATE: 0.25,
+    }, {
+        FROM: 48600,
+        TO: 72000,
+        RATE: 0,
+    }, {
+        FROM: 72000,
+        TO: 72600,
+        RATE: 0.25,
+    }, {
+        FROM: 72600,
+        TO: 200000,
+        RATE: 0,
+    }, {
+        FROM: 200000,
+        TO: 200600,
+        RATE: 0.25,
+    }, {
+        FROM: 200600,
+        TO: 999999999,
+        RATE: 0,
+    }],
+};
+
+export const QC_HEALTH_SERVICES_FUND: ProvincialLevy = {
+    CODE: 'HEALTH_SERVICES_FUND',
+    BASE: 'NON_EMPLOYMENT_INCOME',
+    INDEXED: true,
+    RATES_BY_YEAR: {
+        2023: [{
+            FROM: 0,
+            TO: 15855,
+            RATE: 0,
+        }, {
+            FROM: 15855,
+            TO: 30855,
+            RATE: 0.01,
+        }, {
+            FROM: 30855,
+            TO: 57320,
+            RATE: 0,
+        }, {
+            FROM: 57320,
+            TO: 142320,
+            RATE: 0.01,
+        }, {
+            FROM: 142320,
+            TO: 999999999,
+            RATE: 0,
+        }],
+        2024: [{
+            FROM: 0,
+            TO: 16660,
+            RATE: 0,
+        }, {
+            FROM: 16660,
+            TO: 31660,
+            RATE: 0.01,
+        }, {
+            FROM: 31660,
+            TO: 60230,
+            RATE: 0,
+        }, {
+            FROM: 60230,
+            TO: 145230,
+            RATE: 0.01,
+        }, {
+            FROM: 145230,
+            TO: 999999999,
+            RATE: 0,
+        }],
+    },
+    RATES: [{
+        FROM: 0,
+        TO: 17135,
+        RATE: 0,
+    }, {
+        FROM: 17135,
+        TO: 32135,
+        RATE: 0.01,
+    }, {
+        FROM: 32135,
+        TO: 61945,
+        RATE: 0,
+    }, {
+        FROM: 61945,
+        TO: 146945,
+        RATE: 0.01,
+    }, {
+        FROM: 146945,
+        TO: 999999999,
+        RATE: 0,
+    }],
+};
+
+export const PROVINCIAL_LEVIES: ByProvince<ProvincialLevy[]> = {
+    AB: [],
+    BC: [],
+    MB: [],
+    NB: [],
+    NL: [],
+    NS: [],
+    NT: [],
+    NU: [],
+    ON: [ONTARIO_HEALTH_PREMIUM],
+    PE: [],
+    QC: [QC_HEALTH_SERVICES_FUND],
+    SK: [],
+    YT: [],
+};
+
+export function getProvincialLevies(
+    province: ProvinceCode,
+    income: number,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    nonEmploymentIncome = 0,
+    taxYear?: number,
+): ProvincialLevies {
+    return PROVINCIAL_LEVIES[province].reduce((previous, levy) => {
+        const base = levy.BASE === 'TAXABLE_INCOME' ? income : nonEmploymentIncome;
+        const indexationFactor = levy.INDEXED
+            ? getPublishedAmountIndexationFactor(province, inflationRate, yearsToInflate, LEVIES_YEAR, taxYear)
+            : 1;
+        const rates = getByYear(levy.RATES_BY_YEAR ?? {}, levy.RATES, taxYear).map((rate) => ({
+            ...rate,
+            FROM: rate.FROM * indexationFactor,
+            TO: rate.TO * indexationFactor,
+        }));
+        const amount = getTaxAmount(rates, base, 0, 0);
+        return {
+            lines: { ...previous.lines, [levy.CODE]: amount },
+            total: previous.total + amount,
+        };
+    }, { lines: {}, total: 0 } as ProvincialLevies);
+}
+
+export function getTotalTaxDetails(
+    provincialCode: ProvinceCode,
+    grossIncome: number,
+    inflationRate = 0,
+    yearsToInflate = 0,
+    taxYear?: number,
+    nonEmploymentIncome = 0,
+): TotalTaxDetails {
+    const federalTax = getFederalTaxAmount(provincialCode, grossIncome, inflationRate, yearsToInflate, 0, taxYear);
+    const provincialTax = getProvincialTaxAmount(
+        provincialCode,
+        grossIncome,
+        inflationRate,
+        yearsToInflate,
+        0,
+        taxYear,
+    );
+    const levies = getProvincialLevies(
+        provincialCode,
+        grossIncome,
+        inflationRate,
+        yearsToInflate,
+        nonEmploymentIncome,
+        taxYear,
+    );
+
+    return {
+        federalTax,
+        provincialTax,
+        levies,
+        totalTax: federalTax + provincialTax + levies.total,
+    };
+}
@@ -0,0 +1,143 @@
+/*
+Sources
+    ON: https://www.ontario.ca/document/ontario-tax-reduction
+    BC: https://www2.gov.bc.ca/gov/content/taxes/income-taxes/personal/credits/tax-reduction
+    MB: https://www.gov.mb.ca/finance/personal/pcredits.html (Family tax benefit)
+    NB: https://www2.gnb.ca/content/gnb/en/departments/finance/taxes/personal_income_tax.html
+    NS: https://beta.novascotia.ca/programs-and-services/low-income-tax-reduction
+    SK: https://www.saskatchewan.ca/residents/taxes-and-investments/tax-credits/low-income-tax-credit
+
+Notes
+    Reductions are attached to the TaxBracket of each province and applied by getProvincialTaxAmount.
+    A reduction never exceeds the provincial tax, so the refundable part of the SK low-income credit is not modelled.
+    Amounts and thresholds are projected with the indexation factor of the province (see indexation).
+    The NB low-income tax reduction and the SK low-income credit are not modelled before 2025.
+
+Revised
+    2026-10-19
+*/
+
+export interface TaxReductionHousehold {
+    hasSpouse: boolean;
+    dependants: number;
+    // Used instead of the individual income by reductions based on family income
+    familyNetIncome?: number;
+}
+
+export interface TaxReductionContext extends TaxReductionHousehold {
+    income: number;
+    tax: number;
+    // Indexation of the amounts of the tax year, see getTaxYearIndexationFactor
+    indexationFactor: number;
+}
+
+export interface TaxReduction {
+    getReduction(context: TaxReductionContext): number;
+}
+
+export const NO_HOUSEHOLD: TaxReductionHousehold = {
+    hasSpouse: false,
+    dependants: 0,
+};
+
+export interface IncomeTestedTaxReductionConfig {
+    BASE_AMOUNT: number;
+    SPOUSE_AMOUNT: number;
+    DEPENDANT_AMOUNT: number;
+    MAX_DEPENDANTS: number;
+    THRESHOLD: number;
+    REDUCTION_RATE: number;
+}
+
+export interface OntarioTaxReductionConfig {
+    BASIC_REDUCTION: number;
+    DEPENDANT_REDUCTION: number;
+}
+
+// Amount reduced by a percentage of the income over a threshold (BC, MB, NB, NS, SK)
+export function initializeIncomeTestedTaxReduction(config: IncomeTestedTaxReductionConfig): TaxReduction {
+    const {
+        BASE_AMOUNT,
+        SPOUSE_AMOUNT,
+        DEPENDANT_AMOUNT,
+        MAX_DEPENDANTS,
+        THRESHOLD,
+        REDUCTION_RATE,
+    } = config;
+
+    const getReduction = (context: TaxReductionContext): number => {
+        const { indexationFactor } = context;
+        const income = context.familyNetIncome ?? context.income;
+        const dependants = Math.min(context.dependants, MAX_DEPENDANTS);
+        const amount = BASE_AMOUNT + (context.hasSpouse ? SPOUSE_AMOUNT : 0) + (dependants * DEPENDANT_AMOUNT);
+        const threshold = THRESHOLD * indexationFactor;
+        const reduction = (amount * indexationFactor) - (Math.max(income - threshold, 0) * REDUCTION_RATE);
+        return Math.min(Math.max(reduction, 0), context.tax);
+    };
+
+    return { getReduction };
+}
+
+// Twice the personal reduction minus the Ontario tax, see ON428 Part C
+export function initializeOntarioTaxReduction(config: OntarioTaxReductionConfig): TaxReduction {
+    const { BASIC_REDUCTION, DEPENDANT_REDUCTION } = config;
+
+    const getReduction = (context: TaxReductionContext): number => {
+        const personalReduction = BASIC_REDUCTION + (context.dependants * DEPENDANT_REDUCTION);
+        const reduction = (2 * personalReduction * context.indexationFactor) - context.tax;
+        return Math.min(Math.max(reduction, 0), context.tax);
+    };
+
+    return { getReduction };
+}
+
+export const ON_TAX_REDUCTION = initializeOntarioTaxReduction({
+    BASIC_REDUCTION: 294,
+    DEPENDANT_REDUCTION: 544,
+});
+
+export const BC_TAX_REDUCTION = initializeIncomeTestedTaxReduction({
+    BASE_AMOUNT: 562,
+    SPOUSE_AMOUNT: 0,
+    DEPENDANT_AMOUNT: 0,
+    MAX_DEPENDANTS: 0,
+    THRESHOLD: 25020,
+    REDUCTION_RATE: 0.0356,
+});
+
+// Family tax benefit, amounts and reduction (9% of net income) are credited at the lowest rate (10.8%)
+export const MB_FAMILY_TAX_BENEFIT = initializeIncomeTestedTaxReduction({
+    BASE_AMOUNT: 2065 * 0.108,
+    SPOUSE_AMOUNT: 2065 * 0.108,
+    DEPENDANT_AMOUNT: 2752 * 0.108,
+    MAX_DEPENDANTS: Infinity,
+    THRESHOLD: 0,
+    REDUCTION_RATE: 0.09 * 0.108,
+});
+
+export const NB_LOW_INCOME_TAX_REDUCTION = initializeIncomeTestedTaxReduction({
+    BASE_AMOUNT: 881,
+    SPOUSE_AMOUNT: 0,
+    DEPENDANT_AMOUNT: 0,
+    MAX_DEPENDANTS: 0,
+    THRESHOLD: 22358,
+    REDUCTION_RATE: 0.03,
+});
+
+export const NS_LOW_INCOME_TAX_REDUCTION = initializeIncomeTestedTaxReduction({
+    BASE_AMOUNT: 300,
+    SPOUSE_AMOUNT: 165,
+    DEPENDANT_AMOUNT: 165,
+    MAX_DEPENDANTS: Infinity,
+    THRESHOLD: 15000,
+    REDUCTION_RATE: 0.05,
+});
+
+export const SK_LOW_INCOME_CREDIT = initializeIncomeTestedTaxReduction({
+    BASE_AMOUNT: 429,
+    SPOUSE_AMOUNT: 429,
+    DEPENDANT_AMOUNT: 169,
+    MAX_DEPENDANTS: 2,
+    THRESHOLD: 23257,
+    REDUCTION_RATE: 0.03,
+});
@@ -1,14 +1,38 @@
 /*
 Sources
     https://www.rqap.gouv.qc.ca/fr/a-propos-du-regime/information-generale/cotisations-et-revenu-maximal-assurable
+    https://www.rqap.gouv.qc.ca/en/about-the-plan/general-information/types-of-benefits
+    https://www.rqap.gouv.qc.ca/en/about-the-plan/general-information/choice-of-plan
+
+Notes
+    QPIP holds the current year, QPIP_BY_YEAR the published past years.
+    Salaried workers pay the SALARIED rate and their employer the EMPLOYER rate, self-employed workers the
+    SELF_EMPLOYED rate.
+    The weekly benefit is a rate of the average weekly insurable earnings, capped at MAX_INSURABLE_EARNINGS / 52.
+    Both parents are on the plan chosen by the first parent to receive benefits. There is no waiting week.
+    The weeks of a benefit are paid at the rates of its periods, in order.
+    The parental weeks are shared between the parents, the first parent taking the first weeks. When each parent
+    takes at least MIN_WEEKS of them, the shared weeks bonus is added at the end of the shared weeks.
 
 Revised
-    2024-12-24
+    2026-10-19
 */
 
+import { getByYear } from '../utils/collections';
+import { clamp } from '../utils/math';
+
+const WEEKS_PER_YEAR = 52;
+
 export interface PremiumRates {
     SELF_EMPLOYED: number;
     SALARIED: number;
+    EMPLOYER: number;
+}
+
+export interface QpipPremiums {
+    insurableEarnings: number;
+    employee: number;
+    employer: number;
 }
 
 export interface QuebecParentalInsurancePlan {
@@ -16,10 +40,210 @@ export interface QuebecParentalInsurancePlan {
     PREMIUM_RATES: PremiumRates;
 }
 
+export type QpipPlanType = 'BASIC' | 'SPECIAL';
+
+export type QpipBenefitType = 'MATERNITY' | 'PATERNITY' | 'PARENTAL' | 'ADOPTION';
+
+export interface QpipBenefitPeriod {
+    WEEKS: number;
+    RATE: number;
+}
+
+export interface SharedWeeksBonus {
+    // Minimum parental weeks taken by each parent
+    MIN_WEEKS: number;
+    WEEKS: number;
+    RATE: number;
+}
+
+export interface QpipPlanBenefits {
+    BENEFITS: { [key in QpipBenefitType]: QpipBenefitPeriod[] };
+    SHARED_WEEKS_BONUS: SharedWeeksBonus;
+}
+
+export interface QpipParent {
+    annualIncome: number;
+    weeks: number;
+}
+
+export interface QpipBenefits {
+    averageWeeklyEarnings: number;
+    paidWeeks: number;
+    total: number;
+}
+
 export const QPIP: QuebecParentalInsurancePlan = {
     MAX_INSURABLE_EARNINGS: 98000,
     PREMIUM_RATES: {
         SELF_EMPLOYED: 0.00878,
         SALARIED: 0.00494,
+        EMPLOYER: 0.00692,
+    },
+};
+
+export const QPIP_BY_YEAR: { [year: number]: QuebecParentalInsurancePlan } = {
+    2018: {
+        MAX_INSURABLE_EARNINGS: 74000,
+        PREMIUM_RATES: {
+            SELF_EMPLOYED: 0.00973,
+            SALARIED: 0.00548,
+            EMPLOYER: 0.00767,
+        },
+    },
+    2019: {
+        MAX_INSURABLE_EARNINGS: 76500,
+        PREMIUM_RATES: {
+            SELF_EMPLOYED: 0.00934,
+            SALARIED: 0.00526,
+            EMPLOYER: 0.00736,
+        },
+    },
+    2020: {
+        MAX_INSURABLE_EARNINGS: 78500,
+        PREMIUM_RATES: {
+            SELF_EMPLOYED: 0.00878,
+            SALARIED: 0.00494,
+            EMPLOYER: 0.00692,
+        },
+    },
+    2021: {
+        MAX_INSURABLE_EARNINGS: 83500,
+        PREMIUM_RATES: {
+            SELF_EMPLOYED: 0.00878,
+            SALARIED: 0.00494,
+            EMPLOYER: 0.00692,
+        },
+    },
+    2022: {
+        MAX_INSURABLE_EARNINGS: 88000,
+        PREMIUM_RATES: {
+            SELF_EMPLOYED: 0.00878,
+            SALARIED: 0.00494,
+            EMPLOYER: 0.00692,
+        },
+    },
+    2023: {
+        MAX_INSURABLE_EARNINGS: 91000,
+        PREMIUM_RATES: {
+            SELF_EMPLOYED: 0.00878,
+            SALARIED: 0.00494,
+            EMPLOYER: 0.00692,
+        },
+    },
+    2024: {
+        MAX_INSURABLE_EARNINGS: 94000,
+        PREMIUM_RATES: {
+            SELF_EMPLOYED: 0.00878,
+            SALARIED: 0.00494,
+            EMPLOYER: 0.00692,
+        },
+    },
+};
+
+export function getQuebecParentalInsurancePlan(year?: number): QuebecParentalInsurancePlan {
+    return getByYear(QPIP_BY_YEAR, QPIP, year);
+}
+
+export function getQpipPremiums(earnings: number, year?: number): QpipPremiums {
+    const { MAX_INSURABLE_EARNINGS, PREMIUM_RATES } = getQuebecParentalInsurancePlan(year);
+    const insurableEarnings = clamp(earnings, 0, MAX_INSURABLE_EARNINGS);
+    return {
+        insurableEarnings,
+        employee: insurableEarnings * PREMIUM_RATES.SALARIED,
+        employer: insurableEarnings * PREMIUM_RATES.EMPLOYER,
+    };
+}
+
+export function getSelfEmployedQpipPremium(earnings: number, year?: number): number {
+    const { MAX_INSURABLE_EARNINGS, PREMIUM_RATES } = getQuebecParentalInsurancePlan(year);
+    return clamp(earnings, 0, MAX_INSURABLE_EARNINGS) * PREMIUM_RATES.SELF_EMPLOYED;
+}
+
+export const QPIP_BENEFITS: { [key in QpipPlanType]: QpipPlanBenefits } = {
+    BASIC: {
+        BENEFITS: {
+            MATERNITY: [{ WEEKS: 18, RATE: 0.70 }],
+            PATERNITY: [{ WEEKS: 5, RATE: 0.70 }],
+            PARENTAL: [{ WEEKS: 7, RATE: 0.70 }, { WEEKS: 25, RATE: 0.55 }],
+            ADOPTION: [{ WEEKS: 12, RATE: 0.70 }, { WEEKS: 25, RATE: 0.55 }],
+        },
+        SHARED_WEEKS_BONUS: {
+            MIN_WEEKS: 8,
+            WEEKS: 4,
+            RATE: 0.55,
+        },
+    },
+    SPECIAL: {
+        BENEFITS: {
+            MATERNITY: [{ WEEKS: 15, RATE: 0.75 }],
+            PATERNITY: [{ WEEKS: 3, RATE: 0.75 }],
+            PARENTAL: [{ WEEKS: 25, RATE: 0.75 }],
+            ADOPTION: [{ WEEKS: 28, RATE: 0.75 }],
+        },
+        SHARED_WEEKS_BONUS: {
+            MIN_WEEKS: 6,
+            WEEKS: 3,
+            RATE: 0.75,
+        },
     },
 };
+
+export function getQpipAverageWeeklyEarnings(annualIncome: number, year?: number): number {
+    return clamp(annualIncome, 0, getQuebecParentalInsurancePlan(year).MAX_INSURABLE_EARNINGS) / WEEKS_PER_YEAR;
+}
+
+// Rate of each week of the benefit
+export function getQpipWeeklyRates(plan: QpipPlanType, type: QpipBenefitType, sharedWeeksBonus = false): number[] {
+    const { BENEFITS, SHARED_WEEKS_BONUS } = QPIP_BENEFITS[plan];
+    const periods = sharedWeeksBonus ? [...BENEFITS[type], SHARED_WEEKS_BONUS] : BENEFITS[type];
+    return periods.reduce((previous, period) => (
+        [...previous, ...Array(period.WEEKS).fill(period.RATE)]
+    ), [] as number[]);
+}
+
+function getBenefitsOfWeeks(weeklyRates: number[], annualIncome: number, year?: number): QpipBenefits {
+    const averageWeeklyEarnings = getQpipAverageWeeklyEarnings(annualIncome, year);
+    return {
+        averageWeeklyEarnings,
+        paidWeeks: weeklyRates.length,
+        total: weeklyRates.reduce((previous, rate) => previous + (averageWeeklyEarnings * rate), 0),
+    };
+}
+
+export function getQpipBenefits(
+    plan: QpipPlanType,
+    type: QpipBenefitType,
+    annualIncome: number,
+    weeks?: number,
+    year?: number,
+): QpipBenefits {
+    const weeklyRates = getQpipWeeklyRates(plan, type);
+    return getBenefitsOfWeeks(weeklyRates.slice(0, Math.max(weeks ?? weeklyRates.length, 0)), annualIncome, year);
+}
+
+export function hasSharedWeeksBonus(plan: QpipPlanType, weeks: [number, number]): boolean {
+    const { MIN_WEEKS } = QPIP_BENEFITS[plan].SHARED_WEEKS_BONUS;
+    return weeks.every((parentWeeks) => parentWeeks >= MIN_WEEKS);
+}
+
+export function getSharedParentalBenefits(
+    plan: QpipPlanType,
+    parents: [QpipParent, QpipParent],
+    year?: number,
+): [QpipBenefits, QpipBenefits] {
+    const [first, second] = parents;
+    // The bonus depends on the weeks granted to each parent, not on the weeks requested
+    const getGrantedWeeks = (weeklyRates: number[]): [number, number] => {
+        const firstWeeks = clamp(first.weeks, 0, weeklyRates.length);
+        return [firstWeeks, clamp(second.weeks, 0, weeklyRates.length - firstWeeks)];
+    };
+    const weeklyRatesWithBonus = getQpipWeeklyRates(plan, 'PARENTAL', true);
+    const weeklyRates = hasSharedWeeksBonus(plan, getGrantedWeeks(weeklyRatesWithBonus))
+        ? weeklyRatesWithBonus
+        : getQpipWeeklyRates(plan, 'PARENTAL', false);
+    const [firstWeeks, secondWeeks] = getGrantedWeeks(weeklyRates);
+    return [
+        getBenefitsOfWeeks(weeklyRates.slice(0, firstWeeks), first.annualIncome, year),
+        getBenefitsOfWeeks(weeklyRates.slice(firstWeeks, firstWeeks + secondWeeks), second.annualIncome, year),
+    ];
+}
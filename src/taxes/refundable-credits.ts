@@ -0,0 +1,270 @@
+/*
+Sources
+    CA: https://www.canada.ca/en/revenue-agency/services/child-family-benefits/
+        goods-services-tax-harmonized-sales-tax-gst-hst-credit/
+        goods-services-tax-harmonized-sales-tax-credit-calculation-sheet.html
+    ON: https://www.ontario.ca/page/ontario-trillium-benefit
+    QC: https://www.revenuquebec.ca/en/citizens/tax-credits/solidarity-tax-credit/
+    NB: https://www.canada.ca/en/revenue-agency/services/child-family-benefits/provincial-territorial-programs/
+        province-new-brunswick.html
+    NL: https://www.canada.ca/en/revenue-agency/services/child-family-benefits/provincial-territorial-programs/
+        province-newfoundland-labrador.html
+    NS: https://www.canada.ca/en/revenue-agency/services/child-family-benefits/provincial-territorial-programs/
+        province-nova-scotia.html
+
+Notes
+    Annual amounts of the July 2025 to June 2026 benefit year, based on the adjusted family net income of 2024, like
+    the child benefits.
+    Each credit adds amounts for the individual, the spouse and the children, reduced by a rate of the family net
+    income over a threshold. A single parent gets the SPOUSE amount for a child when ELIGIBLE_DEPENDANT is set.
+    The single supplement of the GST/HST credit is phased in with the net income of singles without a spouse.
+    Only the sales tax credit of the Ontario Trillium Benefit is modelled, the energy and property tax credit depends
+    on the rent or property tax paid. The QC solidarity tax credit includes the housing component.
+    The Canada Carbon Rebate and the BC climate action tax credit ended with the consumer carbon price in April 2025,
+    they are not part of the benefit year.
+    The number of payments depends on the annual amount, the first schedule reached applies.
+
+Revised
+    2026-10-19
+*/
+
+import { ByProvince, ProvinceCode } from '../misc';
+
+export interface CreditHousehold {
+    familyNetIncome: number;
+    hasSpouse: boolean;
+    // Children under 19
+    children: number;
+}
+
+export interface SingleSupplement {
+    AMOUNT: number;
+    // The whole amount is paid without a phase-in
+    PHASE_IN_THRESHOLD?: number;
+    PHASE_IN_RATE?: number;
+}
+
+export interface PaymentSchedule {
+    // Inclusive minimum annual amount
+    MIN_AMOUNT: number;
+    PAYMENTS: number;
+}
+
+export interface RefundableCreditConfig {
+    CODE: string;
+    INDIVIDUAL: number;
+    SPOUSE: number;
+    CHILD: number;
+    ELIGIBLE_DEPENDANT: boolean;
+    SINGLE_SUPPLEMENT?: SingleSupplement;
+    THRESHOLD: number;
+    FAMILY_THRESHOLD?: number;
+    REDUCTION_RATE: number;
+    PAYMENT_SCHEDULES: PaymentSchedule[];
+}
+
+export interface RefundableCreditPayment {
+    annual: number;
+    payments: number;
+    perPayment: number;
+}
+
+export interface RefundableCredit {
+    CODE: string;
+    getCredit(household: CreditHousehold): RefundableCreditPayment;
+}
+
+export interface RefundableCredits {
+    lines: { [code: string]: RefundableCreditPayment };
+    federal: number;
+    provincial: number;
+    total: number;
+}
+
+const QUARTERLY_WITH_GST_HST_CREDIT: PaymentSchedule[] = [
+    { MIN_AMOUNT: 200, PAYMENTS: 4 },
+    { MIN_AMOUNT: 0, PAYMENTS: 1 },
+];
+
+function getSingleSupplement(supplement: SingleSupplement | undefined, household: CreditHousehold): number {
+    if (!supplement || household.hasSpouse) {
+        return 0;
+    }
+    const { AMOUNT, PHASE_IN_THRESHOLD, PHASE_IN_RATE } = supplement;
+    // Single parents get the whole supplement
+    if (household.children > 0 || PHASE_IN_THRESHOLD === undefined || PHASE_IN_RATE === undefined) {
+        return AMOUNT;
+    }
+    return Math.min(Math.max(household.familyNetIncome - PHASE_IN_THRESHOLD, 0) * PHASE_IN_RATE, AMOUNT);
+}
+
+export function initializeRefundableCredit(config: RefundableCreditConfig): RefundableCredit {
+    const {
+        CODE,
+        INDIVIDUAL,
+        SPOUSE,
+        CHILD,
+        ELIGIBLE_DEPENDANT,
+        SINGLE_SUPPLEMENT,
+        THRESHOLD,
+        FAMILY_THRESHOLD,
+        REDUCTION_RATE,
+        PAYMENT_SCHEDULES,
+    } = config;
+
+    const getCredit = (household: CreditHousehold): RefundableCreditPayment => {
+        const children = Math.max(household.children, 0);
+        const hasEligibleDependant = ELIGIBLE_DEPENDANT && !household.hasSpouse && children > 0;
+        const spouseAmount = household.hasSpouse || hasEligibleDependant ? SPOUSE : 0;
+        const childrenAmount = (hasEligibleDependant ? children - 1 : children) * CHILD;
+        const amount = INDIVIDUAL + spouseAmount + childrenAmount + getSingleSupplement(SINGLE_SUPPLEMENT, household);
+
+        const isFamily = household.hasSpouse || children > 0;
+        const threshold = isFamily ? FAMILY_THRESHOLD ?? THRESHOLD : THRESHOLD;
+        const reduction = Math.max(household.familyNetIncome - threshold, 0) * REDUCTION_RATE;
+        const annual = Math.max(amount - reduction, 0);
+
+        const schedule = PAYMENT_SCHEDULES.find((step) => annual >= step.MIN_AMOUNT);
+        const payments = annual > 0 && schedule ? schedule.PAYMENTS : 0;
+        return {
+            annual,
+            payments,
+            perPayment: payments > 0 ? annual / payments : 0,
+        };
+    };
+
+    return { CODE, getCredit };
+}
+
+export const GST_HST_CREDIT = initializeRefundableCredit({
+    CODE: 'GST_HST_CREDIT',
+    INDIVIDUAL: 349,
+    SPOUSE: 349,
+    CHILD: 184,
+    ELIGIBLE_DEPENDANT: true,
+    SINGLE_SUPPLEMENT: {
+        AMOUNT: 184,
+        PHASE_IN_THRESHOLD: 11337,
+        PHASE_IN_RATE: 0.02,
+    },
+    THRESHOLD: 45521,
+    REDUCTION_RATE: 0.05,
+    PAYMENT_SCHEDULES: QUARTERLY_WITH_GST_HST_CREDIT,
+});
+
+// Sales tax credit of the Ontario Trillium Benefit
+export const ONTARIO_SALES_TAX_CREDIT = initializeRefundableCredit({
+    CODE: 'ONTARIO_SALES_TAX_CREDIT',
+    INDIVIDUAL: 371,
+    SPOUSE: 371,
+    CHILD: 371,
+    ELIGIBLE_DEPENDANT: false,
+    THRESHOLD: 29304,
+    FAMILY_THRESHOLD: 36630,
+    REDUCTION_RATE: 0.04,
+    PAYMENT_SCHEDULES: [
+        { MIN_AMOUNT: 360.01, PAYMENTS: 12 },
+        { MIN_AMOUNT: 0, PAYMENTS: 1 },
+    ],
+});
+
+// QST and housing components
+export const QC_SOLIDARITY_TAX_CREDIT = initializeRefundableCredit({
+    CODE: 'QC_SOLIDARITY_TAX_CREDIT',
+    INDIVIDUAL: 371 + 353,
+    SPOUSE: 371 + 353,
+    CHILD: 125,
+    ELIGIBLE_DEPENDANT: false,
+    SINGLE_SUPPLEMENT: { AMOUNT: 178 },
+    THRESHOLD: 40276,
+    REDUCTION_RATE: 0.06,
+    PAYMENT_SCHEDULES: [
+        { MIN_AMOUNT: 800.01, PAYMENTS: 12 },
+        { MIN_AMOUNT: 240.01, PAYMENTS: 4 },
+        { MIN_AMOUNT: 0, PAYMENTS: 1 },
+    ],
+});
+
+export const NB_HST_CREDIT = initializeRefundableCredit({
+    CODE: 'NB_HST_CREDIT',
+    INDIVIDUAL: 300,
+    SPOUSE: 300,
+    CHILD: 300,
+    ELIGIBLE_DEPENDANT: true,
+    THRESHOLD: 35000,
+    REDUCTION_RATE: 0.02,
+    PAYMENT_SCHEDULES: QUARTERLY_WITH_GST_HST_CREDIT,
+});
+
+export const NL_INCOME_SUPPLEMENT = initializeRefundableCredit({
+    CODE: 'NL_INCOME_SUPPLEMENT',
+    INDIVIDUAL: 520,
+    SPOUSE: 144,
+    CHILD: 173,
+    ELIGIBLE_DEPENDANT: true,
+    THRESHOLD: 40000,
+    REDUCTION_RATE: 0.09,
+    PAYMENT_SCHEDULES: QUARTERLY_WITH_GST_HST_CREDIT,
+});
+
+export const NS_AFFORDABLE_LIVING_TAX_CREDIT = initializeRefundableCredit({
+    CODE: 'NS_AFFORDABLE_LIVING_TAX_CREDIT',
+    INDIVIDUAL: 255,
+    SPOUSE: 0,
+    CHILD: 60,
+    ELIGIBLE_DEPENDANT: false,
+    THRESHOLD: 30000,
+    REDUCTION_RATE: 0.05,
+    PAYMENT_SCHEDULES: QUARTERLY_WITH_GST_HST_CREDIT,
+});
+
+export const FEDERAL_REFUNDABLE_CREDITS: RefundableCredit[] = [GST_HST_CREDIT];
+
+export const PROVINCIAL_REFUNDABLE_CREDITS: ByProvince<RefundableCredit[]> = {
+    AB: [],
+    BC: [],
+    MB: [],
+    NB: [NB_HST_CREDIT],
+    NL: [NL_INCOME_SUPPLEMENT],
+    NS: [NS_AFFORDABLE_LIVING_TAX_CREDIT],
+    NT: [],
+    NU: [],
+    ON: [ONTARIO_SALES_TAX_CREDIT],
+    PE: [],
+    QC: [QC_SOLIDARITY_TAX_CREDIT],
+    SK: [],
+    YT: [],
+};
+
+function getCreditLines(
+    credits: RefundableCredit[],
+    household: CreditHousehold,
+): { [code: string]: RefundableCreditPayment } {
+    return credits.reduce((previous, credit) => ({ ...previous, [credit.CODE]: credit.getCredit(household) }), {});
+}
+
+function getLinesTotal(lines: { [code: string]: RefundableCreditPayment }): number {
+    return Object.values(lines).reduce((previous, line) => previous + line.annual, 0);
+}
+
+export function getGstHstCredit(household: CreditHousehold): RefundableCreditPayment {
+    return GST_HST_CREDIT.getCredit(household);
+}
+
+export function getProvincialRefundableCredits(province: ProvinceCode, household: CreditHousehold): number {
+    return getLinesTotal(getCreditLines(PROVINCIAL_REFUNDABLE_CREDITS[province], household));
+}
+
+export function getRefundableCredits(province: ProvinceCode, household: CreditHousehold): RefundableCredits {
+    const federalLines = getCreditLines(FEDERAL_REFUNDABLE_CREDITS, household);
+    const provincialLines = getCreditLines(PROVINCIAL_REFUNDABLE_CREDITS[province], household);
+    const federal = getLinesTotal(federalLines);
+    const provincial = getLinesTotal(provincialLines);
+
+    return {
+        lines: { ...federalLines, ...provincialLines },
+        federal,
+        provincial,
+        total: federal + provincial,
+    };
+}
@@ -0,0 +1,109 @@
+import {
+    getAdjustedTaxableIncome,
+    getFederalMinimumTax,
+    getMinimumTax,
+    getQuebecMinimumTax,
+} from '../alternative-minimum-tax';
+import { getFederalBaseTaxAmount } from '../income-tax';
+
+describe('getAdjustedTaxableIncome', () => {
+    it('should include all the capital gains and the actual dividends', () => {
+        const profile = {
+            ordinaryIncome: 50000,
+            capitalGains: 100000,
+            eligibleDividends: 10000,
+            nonEligibleDividends: 5000,
+        };
+
+        expect(getAdjustedTaxableIncome('CA', profile)).toBe(165000);
+    });
+});
+
+describe('getFederalMinimumTax', () => {
+    it('should not be payable for ordinary income', () => {
+        const result = getFederalMinimumTax({ ordinaryIncome: 250000 }, 0, 0, 2025);
+
+        expect(result.payable).toBe(0);
+        expect(result.regularTax).toBeGreaterThan(result.minimumTax);
+    });
+
+    it('should be payable on a large capital gain', () => {
+        const result = getFederalMinimumTax({ ordinaryIncome: 0, capitalGains: 1000000 }, 0, 0, 2025);
+        const baseCredit = 14538 * 0.145;
+
+        expect(result.taxableIncome).toBe(500000);
+        expect(result.adjustedTaxableIncome).toBe(1000000);
+        expect(result.regularTax).toBeCloseTo(getFederalBaseTaxAmount(500000, 0, 0, 2025) - baseCredit, 6);
+        expect(result.minimumTax).toBeCloseTo(((1000000 - 177882) * 0.205) - baseCredit, 6);
+        expect(result.payable).toBeCloseTo(result.minimumTax - result.regularTax, 6);
+        expect(result.carryForward).toBeCloseTo(result.payable, 6);
+    });
+
+    it('should only allow half of the non-refundable tax credits', () => {
+        const profile = { ordinaryIncome: 0, capitalGains: 1000000 };
+        const withoutCredits = getFederalMinimumTax(profile, 0, 0, 2025);
+        const withCredits = getFederalMinimumTax({ ...profile, taxCredits: 1000 }, 0, 0, 2025);
+
+        expect(withoutCredits.minimumTax - withCredits.minimumTax).toBeCloseTo(500, 6);
+        expect(withoutCredits.regularTax - withCredits.regularTax).toBeCloseTo(1000, 6);
+    });
+
+    it('should not allow the dividend tax credits', () => {
+        const result = getFederalMinimumTax({ ordinaryIncome: 0, eligibleDividends: 500000 }, 0, 0, 2025);
+
+        expect(result.taxableIncome).toBeCloseTo(690000, 6);
+        expect(result.adjustedTaxableIncome).toBe(500000);
+        expect(result.minimumTax).toBeCloseTo(((500000 - 177882) * 0.205) - (14538 * 0.145), 6);
+    });
+
+    it('should apply the carry-forward when the regular tax exceeds the minimum tax', () => {
+        const result = getFederalMinimumTax({ ordinaryIncome: 250000, carryForward: 5000 }, 0, 0, 2025);
+
+        expect(result.carryForwardApplied).toBe(5000);
+        expect(result.carryForward).toBe(0);
+    });
+
+    it('should index the exemption', () => {
+        const profile = { ordinaryIncome: 0, capitalGains: 1000000 };
+        // Published 2026 factor, then the projected inflation rate
+        const factor = 1.02 * 1.1;
+        const baseCredit = 14538 * factor * 0.14;
+
+        expect(getMinimumTax('CA', profile, 0.1, 2).minimumTax)
+            .toBeCloseTo(((1000000 - (177882 * factor)) * 0.205) - baseCredit, 6);
+    });
+});
+
+describe('taxYear', () => {
+    it('should use the rules before the 2024 reform', () => {
+        const result = getFederalMinimumTax({ ordinaryIncome: 0, capitalGains: 1000000, taxCredits: 1000 }, 0, 0, 2023);
+        const baseCredit = 13521 * 0.15;
+
+        expect(result.adjustedTaxableIncome).toBe(800000);
+        expect(result.minimumTax).toBeCloseTo(((800000 - 40000) * 0.15) - baseCredit - 1000, 6);
+    });
+
+    it('should use the exemption of the tax year', () => {
+        const result = getFederalMinimumTax({ ordinaryIncome: 0, capitalGains: 1000000 }, 0, 0, 2024);
+        const baseCredit = 14156 * 0.15;
+
+        expect(result.minimumTax).toBeCloseTo(((1000000 - 173205) * 0.205) - baseCredit, 6);
+    });
+
+    it('should index the exemption of the years after the current one', () => {
+        const result = getFederalMinimumTax({ ordinaryIncome: 0, capitalGains: 1000000 }, 0, 0, 2026);
+        const baseCredit = 14829 * 0.14;
+
+        expect(result.minimumTax).toBeCloseTo(((1000000 - (177882 * 1.02)) * 0.205) - baseCredit, 6);
+    });
+});
+
+describe('getQuebecMinimumTax', () => {
+    it('should use the QC exemption and rate', () => {
+        const result = getQuebecMinimumTax({ ordinaryIncome: 0, capitalGains: 1000000 }, 0, 0, 2025);
+
+        expect(result.adjustedTaxableIncome).toBe(1000000);
+        expect(result.minimumTax).toBeCloseTo(((1000000 - 175000) * 0.19) - (18571 * 0.14), 6);
+        expect(result.payable).toBeGreaterThan(0);
+    });
+});
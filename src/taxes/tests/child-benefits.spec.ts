@@ -0,0 +1,125 @@
+import {
+    AB_CHILD_AND_FAMILY_BENEFIT,
+    AB_CHILD_AND_FAMILY_BENEFIT_WORKING,
+    BC_FAMILY_BENEFIT,
+    CANADA_CHILD_BENEFIT,
+    CHILD_DISABILITY_BENEFIT,
+    getChildBenefits,
+    getFederalChildBenefits,
+    getProvincialChildBenefits,
+    ONTARIO_CHILD_BENEFIT,
+    QC_FAMILY_ALLOWANCE,
+} from '../child-benefits';
+
+describe('CANADA_CHILD_BENEFIT', () => {
+    it('should pay the maximum amounts by age under the first threshold', () => {
+        expect(CANADA_CHILD_BENEFIT.getBenefit({ familyNetIncome: 30000, childrenAges: [2, 8] }))
+            .toBeCloseTo(7997 + 6748, 6);
+    });
+
+    it('should not pay for children of 18 and over', () => {
+        expect(CANADA_CHILD_BENEFIT.getBenefit({ familyNetIncome: 30000, childrenAges: [18] })).toBe(0);
+    });
+
+    it('should reduce the benefit in the first tier at the rate of the number of children', () => {
+        expect(CANADA_CHILD_BENEFIT.getBenefit({ familyNetIncome: 47487, childrenAges: [3] }))
+            .toBeCloseTo(7997 - 700, 6);
+        expect(CANADA_CHILD_BENEFIT.getBenefit({ familyNetIncome: 47487, childrenAges: [3, 4, 5, 6, 7] }))
+            .toBeCloseTo((3 * 7997) + (2 * 6748) - 2300, 6);
+    });
+
+    it('should reduce the benefit in the second tier', () => {
+        const firstTier = (81222 - 37487) * 0.135;
+
+        expect(CANADA_CHILD_BENEFIT.getBenefit({ familyNetIncome: 91222, childrenAges: [1, 10] }))
+            .toBeCloseTo(7997 + 6748 - firstTier - 570, 6);
+        expect(CANADA_CHILD_BENEFIT.getBenefit({ familyNetIncome: 500000, childrenAges: [1, 10] })).toBe(0);
+    });
+});
+
+describe('CHILD_DISABILITY_BENEFIT', () => {
+    it('should pay the amount for each disabled child', () => {
+        expect(CHILD_DISABILITY_BENEFIT.getBenefit({ familyNetIncome: 60000, childrenAges: [4, 9] })).toBe(0);
+        expect(CHILD_DISABILITY_BENEFIT.getBenefit({
+            familyNetIncome: 60000,
+            childrenAges: [4, 9],
+            disabledChildren: 2,
+        })).toBe(2 * 3411);
+    });
+
+    it('should only reduce the benefit in the second tier', () => {
+        expect(CHILD_DISABILITY_BENEFIT.getBenefit({
+            familyNetIncome: 91222,
+            childrenAges: [4],
+            disabledChildren: 1,
+        })).toBeCloseTo(3411 - 320, 6);
+    });
+});
+
+describe('QC_FAMILY_ALLOWANCE', () => {
+    it('should reduce the maximum down to the minimum amount', () => {
+        expect(QC_FAMILY_ALLOWANCE.getBenefit({ familyNetIncome: 50000, childrenAges: [1, 3] })).toBe(2 * 2923);
+        expect(QC_FAMILY_ALLOWANCE.getBenefit({ familyNetIncome: 71150, childrenAges: [1, 3] }))
+            .toBeCloseTo((2 * 2923) - 400, 6);
+        expect(QC_FAMILY_ALLOWANCE.getBenefit({ familyNetIncome: 300000, childrenAges: [1, 3] })).toBe(2 * 1163);
+    });
+
+    it('should add the single parent supplement with a lower threshold', () => {
+        expect(QC_FAMILY_ALLOWANCE.getBenefit({ familyNetIncome: 54546, childrenAges: [5], singleParent: true }))
+            .toBeCloseTo(2923 + 1026 - 400, 6);
+    });
+});
+
+describe('ONTARIO_CHILD_BENEFIT', () => {
+    it('should reduce the benefit by 8% of the income over the threshold', () => {
+        expect(ONTARIO_CHILD_BENEFIT.getBenefit({ familyNetIncome: 36364, childrenAges: [1, 3] }))
+            .toBeCloseTo((2 * 1727) - 800, 6);
+        expect(ONTARIO_CHILD_BENEFIT.getBenefit({ familyNetIncome: 100000, childrenAges: [1, 3] })).toBe(0);
+    });
+});
+
+describe('BC_FAMILY_BENEFIT', () => {
+    it('should use the amounts of the child rank', () => {
+        expect(BC_FAMILY_BENEFIT.getBenefit({ familyNetIncome: 30000, childrenAges: [1, 3, 5, 7] }))
+            .toBe(1750 + 1100 + 900 + 900);
+    });
+
+    it('should reduce the minimum amounts from the second threshold', () => {
+        expect(BC_FAMILY_BENEFIT.getBenefit({ familyNetIncome: 100000, childrenAges: [1, 3] })).toBe(625 + 600);
+        expect(BC_FAMILY_BENEFIT.getBenefit({ familyNetIncome: 124887, childrenAges: [1, 3] }))
+            .toBeCloseTo(625 + 600 - 400, 6);
+    });
+});
+
+describe('AB_CHILD_AND_FAMILY_BENEFIT', () => {
+    it('should pay the base component for up to four children', () => {
+        expect(AB_CHILD_AND_FAMILY_BENEFIT.getBenefit({ familyNetIncome: 20000, childrenAges: [1, 2, 3, 4, 5] }))
+            .toBe(1499 + (3 * 750));
+    });
+
+    it('should phase in the working component with the employment income', () => {
+        const family = { familyNetIncome: 20000, childrenAges: [1, 3], familyEmploymentIncome: 5760 };
+
+        expect(AB_CHILD_AND_FAMILY_BENEFIT_WORKING.getBenefit(family)).toBeCloseTo(450, 6);
+        expect(AB_CHILD_AND_FAMILY_BENEFIT_WORKING.getBenefit({ ...family, familyEmploymentIncome: 20000 }))
+            .toBe(767 + 350);
+    });
+});
+
+describe('getChildBenefits', () => {
+    const family = { familyNetIncome: 70000, childrenAges: [2, 7] };
+
+    it('should add the federal and provincial benefits of the province', () => {
+        const benefits = getChildBenefits('QC', family);
+
+        expect(benefits.federal).toBeCloseTo(getFederalChildBenefits(family), 6);
+        expect(benefits.provincial).toBeCloseTo(getProvincialChildBenefits('QC', family), 6);
+        expect(benefits.total).toBeCloseTo(benefits.federal + benefits.provincial, 6);
+        expect(Object.keys(benefits.lines))
+            .toEqual(['CANADA_CHILD_BENEFIT', 'CHILD_DISABILITY_BENEFIT', 'QC_FAMILY_ALLOWANCE']);
+    });
+
+    it('should not have provincial benefits in provinces without one', () => {
+        expect(getChildBenefits('MB', family).provincial).toBe(0);
+    });
+});
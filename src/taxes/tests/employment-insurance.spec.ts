@@ -0,0 +1,135 @@
+import {
+    EI,
+    getAverageWeeklyEarnings,
+    getBestWeeksDivisor,
+    getEiBenefitRepayment,
+    getEiBenefits,
+    getEiPremiumRate,
+    getEiPremiums,
+    getEmploymentInsurance,
+    getSelfEmployedEiPremium,
+    getWeeklyBenefit,
+} from '../employment-insurance';
+
+describe('getEmploymentInsurance', () => {
+    it('should return the current year without year or after the last published year', () => {
+        expect(getEmploymentInsurance()).toBe(EI);
+        expect(getEmploymentInsurance(2030)).toBe(EI);
+    });
+
+    it('should return the maximum insurable earnings and rates of the year', () => {
+        const ei = getEmploymentInsurance(2023);
+
+        expect(ei.MAX_INSURABLE_EARNINGS).toBe(61500);
+        expect(ei.PREMIUM_RATES.CA).toBe(0.0163);
+        expect(ei.PREMIUM_RATES.QC).toBe(0.0127);
+    });
+});
+
+describe('getEiPremiums', () => {
+    it('should charge the employer 1.4 times the employee premium', () => {
+        const premiums = getEiPremiums('ON', 50000);
+
+        expect(premiums.employee).toBeCloseTo(50000 * 0.0164, 6);
+        expect(premiums.employer).toBeCloseTo(50000 * 0.0164 * 1.4, 6);
+        expect(premiums.refund).toBe(0);
+    });
+
+    it('should use the QC rate of the year up to the maximum insurable earnings', () => {
+        expect(getEiPremiumRate('QC', 2023)).toBe(0.0127);
+        expect(getEiPremiums('QC', 100000, 2023).employee).toBeCloseTo(61500 * 0.0127, 6);
+    });
+
+    it('should refund the employee premiums up to 2000 of insurable earnings', () => {
+        expect(getEiPremiums('ON', 2000).refund).toBeCloseTo(2000 * 0.0164, 6);
+        expect(getEiPremiums('ON', 2001).refund).toBe(0);
+    });
+});
+
+describe('getSelfEmployedEiPremium', () => {
+    it('should only charge the employee premium', () => {
+        expect(getSelfEmployedEiPremium('BC', 40000)).toBeCloseTo(40000 * 0.0164, 6);
+        expect(getSelfEmployedEiPremium('QC', 100000)).toBeCloseTo(65700 * 0.0131, 6);
+    });
+});
+
+describe('getBestWeeksDivisor', () => {
+    it('should use fewer best weeks when the regional unemployment rate is higher', () => {
+        expect(getBestWeeksDivisor(0.05)).toBe(22);
+        expect(getBestWeeksDivisor(0.06)).toBe(22);
+        expect(getBestWeeksDivisor(0.065)).toBe(21);
+        expect(getBestWeeksDivisor(0.125)).toBe(15);
+        expect(getBestWeeksDivisor(0.2)).toBe(14);
+    });
+});
+
+describe('getAverageWeeklyEarnings', () => {
+    it('should average the best weeks capped at the maximum weekly insurable earnings', () => {
+        const weeklyEarnings = [...Array(30).fill(1000), ...Array(10).fill(2000)];
+
+        expect(getAverageWeeklyEarnings(weeklyEarnings, 0.05)).toBeCloseTo(((10 * 65700) / 52 + 12000) / 22, 6);
+    });
+
+    it('should divide by the best weeks even with fewer weeks of earnings', () => {
+        expect(getAverageWeeklyEarnings(Array(11).fill(800), 0.05)).toBeCloseTo(400, 6);
+    });
+});
+
+describe('getWeeklyBenefit', () => {
+    it('should apply the benefit rate up to the maximum', () => {
+        expect(getWeeklyBenefit('REGULAR', 1000)).toBeCloseTo(550, 6);
+        expect(getWeeklyBenefit('EXTENDED_PARENTAL', 1000)).toBeCloseTo(330, 6);
+        expect(getWeeklyBenefit('MATERNITY', 5000)).toBeCloseTo(694.90, 2);
+        expect(getWeeklyBenefit('EXTENDED_PARENTAL', 5000)).toBeCloseTo(416.94, 2);
+    });
+
+    it('should use the maximum insurable earnings of the year', () => {
+        expect(getWeeklyBenefit('SICKNESS', 5000, 2023)).toBeCloseTo((61500 / 52) * 0.55, 6);
+    });
+});
+
+describe('getEiBenefits', () => {
+    const weeklyEarnings = Array(52).fill(1000);
+
+    it('should pay the maximum weeks after the waiting week', () => {
+        const benefits = getEiBenefits({ type: 'MATERNITY', weeklyEarnings, unemploymentRate: 0.05 });
+
+        expect(benefits.waitingWeeks).toBe(1);
+        expect(benefits.paidWeeks).toBe(15);
+        expect(benefits.total).toBeCloseTo(15 * 550, 6);
+    });
+
+    it('should not serve the waiting week twice on a claim', () => {
+        const benefits = getEiBenefits({
+            type: 'STANDARD_PARENTAL',
+            weeklyEarnings,
+            unemploymentRate: 0.05,
+            weeks: 20,
+            waitingWeekServed: true,
+        });
+
+        expect(benefits.waitingWeeks).toBe(0);
+        expect(benefits.paidWeeks).toBe(20);
+    });
+
+    it('should cap the weeks claimed at the maximum of the benefit', () => {
+        const benefits = getEiBenefits({ type: 'SICKNESS', weeklyEarnings, unemploymentRate: 0.05, weeks: 40 });
+
+        expect(benefits.paidWeeks).toBe(26);
+    });
+});
+
+describe('getEiBenefitRepayment', () => {
+    it('should repay 30% of the net income over 1.25 times the maximum insurable earnings', () => {
+        expect(getEiBenefitRepayment(80000, 10000)).toBe(0);
+        expect(getEiBenefitRepayment(92125, 20000)).toBeCloseTo(3000, 6);
+    });
+
+    it('should not repay more than 30% of the regular benefits', () => {
+        expect(getEiBenefitRepayment(150000, 10000)).toBeCloseTo(3000, 6);
+    });
+
+    it('should not apply without regular benefits in the previous years', () => {
+        expect(getEiBenefitRepayment(150000, 10000, undefined, false)).toBe(0);
+    });
+});
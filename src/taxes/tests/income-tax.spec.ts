@@ -7,6 +7,13 @@ import {
     getProvincialTaxAmount,
     getFederalTaxCreditRate,
     getFederalTaxRates,
+    getBlendedRate,
+    getFederalBasePersonalAmount,
+    getTaxAmount,
+    getTaxBracketsByYear,
+    getTotalTaxAmount,
+    TAX_BRACKETS,
+    TAX_BRACKETS_BY_YEAR,
 } from '../income-tax';
 
 import * as Date from '../../utils/date';
@@ -68,6 +75,15 @@ describe('getTaxAMount', () => {
 
             expect(provincialTaxAmount).toBe(expectedTax);
         });
+
+        it('should deduct the credits before the surtax when requested', () => {
+            const tax = getProvincialTaxAmount('ON', 150000);
+            const taxWithCredit = getProvincialTaxAmount('ON', 150000, 0, 0, 1000);
+            const taxWithCreditBeforeSurtax = getProvincialTaxAmount('ON', 150000, 0, 0, 0, undefined, undefined, 1000);
+
+            expect(taxWithCredit).toBeCloseTo(tax - 1000, 6);
+            expect(taxWithCreditBeforeSurtax).toBeCloseTo(tax - (1000 * 1.56), 6);
+        });
     });
 
     describe('getFederalTaxAmount', () => {
@@ -165,4 +181,154 @@ describe('getTaxAMount', () => {
             expect(result[0].RATE).toBe(0.14);
         });
     });
+
+    describe('getTaxBracketsByYear', () => {
+        it('should return the base brackets when no tax year is given', () => {
+            expect(getTaxBracketsByYear()).toBe(TAX_BRACKETS);
+        });
+
+        it('should return the published brackets of the tax year', () => {
+            expect(getTaxBracketsByYear(2024)).toBe(TAX_BRACKETS_BY_YEAR[2024]);
+            expect(getTaxBracketsByYear(2024).CA.RATES[0].TO).toBe(55867);
+        });
+
+        it('should return the published brackets from 2020 to 2026', () => {
+            expect(getTaxBracketsByYear(2020).CA.RATES[0].TO).toBe(48535);
+            expect(getTaxBracketsByYear(2022).NL.RATES).toHaveLength(8);
+            expect(getTaxBracketsByYear(2026).CA.RATES[0].TO).toBe(58523);
+        });
+
+        it('should not support the years before the first published year', () => {
+            expect(() => getTaxBracketsByYear(2010)).toThrow(RangeError);
+            expect(() => getTotalTaxAmount('ON', 80000, 0, 0, 2019)).toThrow(RangeError);
+        });
+
+        it('should return the latest published brackets for years after the latest published year', () => {
+            expect(getTaxBracketsByYear(2040)).toBe(TAX_BRACKETS_BY_YEAR[2026]);
+        });
+
+        it('should index the years after the latest published year from it', () => {
+            const taxIn2027 = getTotalTaxAmount('ON', 80000, 0.02, 0, 2027);
+
+            expect(taxIn2027).toBeCloseTo(getTotalTaxAmount('ON', 80000, 0.02, 1, 2026), 6);
+            expect(taxIn2027).toBeLessThan(getTotalTaxAmount('ON', 80000, 0, 0, 2026));
+            expect(getFederalBasePersonalAmount(0, 0.02, 0, 2027)).toBeCloseTo(16452 * 1.02, 6);
+        });
+    });
+
+    describe('taxYear', () => {
+        it('should use the federal brackets of the tax year', () => {
+            expect(getFederalTaxRates(0, 2023)[0]).toEqual({ FROM: 0, TO: 53359, RATE: 0.15 });
+            expect(getFederalTaxCreditRate(0, 2025)).toBe(0.145);
+        });
+
+        it('should calculate the federal tax of a prior year', () => {
+            const federalTaxAmount = getFederalTaxAmount('ON', 60000, 0, 0, 0, 2024);
+
+            expect(federalTaxAmount).toBeCloseTo((55867 * 0.15) + (4133 * 0.205) - (15705 * 0.15), 6);
+        });
+
+        it('should calculate the provincial tax of a prior year', () => {
+            const provincialTaxAmount = getProvincialTaxAmount('AB', 60000, 0, 0, 0, 2023);
+
+            expect(provincialTaxAmount).toBeCloseTo((60000 - 21003) * 0.1, 6);
+            expect(getProvincialTaxAmount('AB', 60000, 0, 0, 0, 2022)).toBeCloseTo((60000 - 19814) * 0.1, 6);
+        });
+
+        it('should calculate the provincial tax of 2026', () => {
+            const provincialTaxAmount = getProvincialTaxAmount('AB', 60000, 0, 0, 0, 2026);
+
+            expect(provincialTaxAmount).toBeCloseTo((60000 - 22769) * 0.08, 6);
+        });
+
+        it('should not use the prior year brackets by default', () => {
+            jest.spyOn(Date, 'now').mockImplementation(() => new global.Date(2020, 0, 1));
+
+            expect(getFederalTaxRates(0)[0].TO).toBe(57375);
+        });
+
+        it('should not depend on the current date when a tax year is given', () => {
+            jest.spyOn(Date, 'now').mockImplementation(() => new global.Date(2025, 0, 1));
+            const taxIn2025 = getTotalTaxAmount('QC', 90000, 0, 0, 2024);
+
+            jest.spyOn(Date, 'now').mockImplementation(() => new global.Date(2026, 0, 1));
+            const taxIn2026 = getTotalTaxAmount('QC', 90000, 0, 0, 2024);
+
+            expect(taxIn2025).toBe(taxIn2026);
+        });
+    });
+
+    describe('getBlendedRate', () => {
+        const rate = {
+            FROM: 0,
+            TO: 50000,
+            RATE: 0.14,
+            SEGMENTS: [
+                { EFFECTIVE_DATE: '2025-01-01', RATE: 0.15 },
+                { EFFECTIVE_DATE: '2025-04-01', RATE: 0.14 },
+                { EFFECTIVE_DATE: '2025-10-01', RATE: 0.12 },
+            ],
+        };
+
+        it('should return the rate when there is no segment', () => {
+            expect(getBlendedRate({ FROM: 0, TO: 50000, RATE: 0.1 })).toBe(0.1);
+        });
+
+        it('should prorate the segments by month', () => {
+            expect(getBlendedRate(rate)).toBe(0.1375);
+        });
+
+        it('should return the rate in effect at the end of the year when inflating', () => {
+            expect(getBlendedRate(rate, 1)).toBe(0.14);
+        });
+
+        it('should apply the blended rate in the tax amount', () => {
+            expect(getTaxAmount([rate], 40000, 0, 0)).toBeCloseTo(40000 * 0.1375, 6);
+        });
+
+        it('should blend the 2025 federal rate and credit rate', () => {
+            expect(getFederalTaxRates(0, 2025)[0].RATE).toBe(0.145);
+            expect(getFederalTaxCreditRate(0, 2025)).toBe(0.145);
+            expect(getFederalTaxCreditRate(1, 2025)).toBe(0.14);
+        });
+    });
+
+    describe('getFederalBasePersonalAmount', () => {
+        it('should return the full amount below the 4th bracket', () => {
+            expect(getFederalBasePersonalAmount(177882)).toBe(16129);
+        });
+
+        it('should reduce the amount linearly between the 4th and 5th brackets', () => {
+            const midIncome = (177882 + 253414) / 2;
+
+            expect(getFederalBasePersonalAmount(midIncome)).toBeCloseTo((16129 + 14538) / 2, 6);
+        });
+
+        it('should return the minimum amount from the 5th bracket', () => {
+            expect(getFederalBasePersonalAmount(400000)).toBe(14538);
+        });
+
+        it('should inflate the amounts and the reduction range', () => {
+            const inflationRate = 0.02;
+            const yearsToInflate = 3;
+            const factor = (1 + inflationRate) ** yearsToInflate;
+
+            expect(getFederalBasePersonalAmount(253414 * factor, inflationRate, yearsToInflate))
+                .toBeCloseTo(14538 * factor, 6);
+            expect(getFederalBasePersonalAmount(177882 * factor, inflationRate, yearsToInflate))
+                .toBeCloseTo(16129 * factor, 6);
+        });
+
+        it('should use the amounts of the tax year', () => {
+            expect(getFederalBasePersonalAmount(300000, 0, 0, 2024)).toBe(14156);
+        });
+
+        it('should reduce the base credit of high incomes', () => {
+            const federalTax = getFederalTaxAmount('ON', 300000, 0, 0, 0, 2024);
+            const expectedTax = getFederalBaseTaxAmount(300000, 0, 0, 2024) - (14156 * 0.15);
+
+            expect(getFederalBaseCredit(0, 0, 2024, 300000)).toBeCloseTo(14156 * 0.15, 6);
+            expect(federalTax).toBeCloseTo(expectedTax, 6);
+        });
+    });
 });
@@ -0,0 +1,128 @@
+import {
+    getFederalTaxAmount,
+    getProvincialBaseCredit,
+    getProvincialBaseTaxAmount,
+    getProvincialTaxAmount,
+    getTotalMarginalRate,
+    getTotalTaxAmount,
+} from '../income-tax';
+import {
+    getDividendTaxCredit,
+    getIncomeTypeMarginalRate,
+    getIncomeTypeTax,
+    getMarginalEffectiveTaxRate,
+    getTaxableIncome,
+} from '../income-types';
+
+describe('getTaxableIncome', () => {
+    it('should gross up the dividends and include half of the capital gains', () => {
+        const income = {
+            employmentIncome: 50000,
+            interestIncome: 1000,
+            eligibleDividends: 1000,
+            nonEligibleDividends: 1000,
+            capitalGains: 10000,
+        };
+
+        expect(getTaxableIncome(income)).toBeCloseTo(50000 + 1000 + 1380 + 1150 + 5000, 6);
+    });
+});
+
+describe('getDividendTaxCredit', () => {
+    it('should apply the credit rates to the grossed-up dividends', () => {
+        const income = { eligibleDividends: 1000, nonEligibleDividends: 1000 };
+
+        expect(getDividendTaxCredit('CA', income)).toBeCloseTo((1380 * 0.150198) + (1150 * 0.090301), 6);
+        expect(getDividendTaxCredit('ON', income)).toBeCloseTo((1380 * 0.1) + (1150 * 0.029863), 6);
+    });
+});
+
+describe('getIncomeTypeTax', () => {
+    it('should match the total tax for ordinary income', () => {
+        const result = getIncomeTypeTax('QC', { employmentIncome: 60000, interestIncome: 5000 });
+
+        expect(result.taxableIncome).toBe(65000);
+        expect(result.federalTax).toBeCloseTo(getFederalTaxAmount('QC', 65000), 6);
+        expect(result.provincialTax).toBeCloseTo(getProvincialTaxAmount('QC', 65000), 6);
+        expect(result.totalTax).toBeCloseTo(getTotalTaxAmount('QC', 65000), 6);
+    });
+
+    it('should apply the dividend tax credits against the tax', () => {
+        const income = { employmentIncome: 80000, eligibleDividends: 10000 };
+        const result = getIncomeTypeTax('ON', income);
+
+        expect(result.taxableIncome).toBeCloseTo(93800, 6);
+        expect(result.federalTax).toBeCloseTo(getFederalTaxAmount('ON', 93800, 0, 0, 13800 * 0.150198), 6);
+        expect(result.provincialTax)
+            .toBeCloseTo(getProvincialBaseTaxAmount('ON', 93800) - getProvincialBaseCredit('ON', 0, 0) - 1380, 6);
+        expect(result.totalTax).toBeLessThan(getTotalTaxAmount('ON', 93800));
+    });
+
+    it('should compute the ON surtax on the tax net of the dividend tax credit', () => {
+        const result = getIncomeTypeTax('ON', { otherIncome: 150000, eligibleDividends: 50000 }, 0, 0, 2025);
+
+        expect(result.provincialDividendTaxCredit).toBeCloseTo(6900, 6);
+        expect(result.provincialTax).toBeCloseTo(16963.43, 2);
+    });
+
+    it('should tax capital gains at the marginal rate on the included amount', () => {
+        const result = getIncomeTypeTax('AB', { employmentIncome: 100000, capitalGains: 10000 });
+
+        expect(result.totalTax).toBeCloseTo(getTotalTaxAmount('AB', 105000), 6);
+    });
+});
+
+describe('getIncomeTypeMarginalRate', () => {
+    it('should match the total marginal rate for ordinary income', () => {
+        const income = { employmentIncome: 60000 };
+
+        expect(getIncomeTypeMarginalRate('BC', income, 'employmentIncome'))
+            .toBeCloseTo(getTotalMarginalRate('BC', 60000), 4);
+        expect(getIncomeTypeMarginalRate('BC', income, 'interestIncome'))
+            .toBe(getIncomeTypeMarginalRate('BC', income, 'employmentIncome'));
+    });
+
+    it('should be half the ordinary rate for capital gains', () => {
+        const income = { employmentIncome: 120000 };
+        const ordinaryRate = getIncomeTypeMarginalRate('QC', income, 'employmentIncome');
+
+        expect(getIncomeTypeMarginalRate('QC', income, 'capitalGains')).toBeCloseTo(ordinaryRate / 2, 3);
+    });
+
+    it('should account for the gross-up and the dividend tax credits', () => {
+        const income = { employmentIncome: 120000 };
+        const ordinaryRate = getIncomeTypeMarginalRate('ON', income, 'employmentIncome');
+        const eligibleRate = getIncomeTypeMarginalRate('ON', income, 'eligibleDividends');
+        const nonEligibleRate = getIncomeTypeMarginalRate('ON', income, 'nonEligibleDividends');
+
+        // The ON dividend tax credit also reduces the 20% and 36% surtaxes
+        expect(eligibleRate).toBeCloseTo((1.38 * ordinaryRate) - (1.38 * (0.150198 + (0.1 * 1.56))), 3);
+        expect(nonEligibleRate).toBeLessThan(ordinaryRate);
+        expect(eligibleRate).toBeLessThan(nonEligibleRate);
+    });
+});
+
+describe('getMarginalEffectiveTaxRate', () => {
+    it('should match the marginal rate without levies or OAS recovery', () => {
+        const income = { employmentIncome: 60000 };
+
+        expect(getMarginalEffectiveTaxRate('AB', income, 'employmentIncome'))
+            .toBe(getIncomeTypeMarginalRate('AB', income, 'employmentIncome'));
+    });
+
+    it('should add the OAS recovery tax over the threshold', () => {
+        const income = { otherIncome: 100000 };
+        const marginalRate = getIncomeTypeMarginalRate('AB', income, 'otherIncome');
+
+        expect(getMarginalEffectiveTaxRate('AB', income, 'otherIncome', 8819)).toBeCloseTo(marginalRate + 0.15, 4);
+        expect(getMarginalEffectiveTaxRate('AB', income, 'eligibleDividends', 8819))
+            .toBeCloseTo(getIncomeTypeMarginalRate('AB', income, 'eligibleDividends') + (1.38 * 0.15), 4);
+    });
+
+    it('should add the phase-in of the Ontario Health Premium', () => {
+        const income = { employmentIncome: 48300 };
+        const marginalRate = getIncomeTypeMarginalRate('ON', income, 'employmentIncome');
+
+        expect(getMarginalEffectiveTaxRate('ON', income, 'employmentIncome')).toBeCloseTo(marginalRate + 0.25, 4);
+    });
+});
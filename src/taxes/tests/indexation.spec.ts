@@ -0,0 +1,58 @@
+import { getFederalBasePersonalAmount, getIndexedAmount, getProvincialBaseTaxAmount } from '../income-tax';
+import { getIndexationFactor, getPublishedAmountIndexationFactor } from '../indexation';
+
+describe('getIndexationFactor', () => {
+    it('should not index without years to inflate', () => {
+        expect(getIndexationFactor('ON', 0.05, 0, 2025)).toBe(1);
+    });
+
+    it('should use the published factors before the projected rate', () => {
+        expect(getIndexationFactor('QC', 0.05, 1, 2025)).toBeCloseTo(1.0205, 6);
+        expect(getIndexationFactor('QC', 0.05, 3, 2025)).toBeCloseTo(1.0205 * 1.05 * 1.05, 6);
+        expect(getIndexationFactor('CA', 0.05, 2, 2024)).toBeCloseTo(1.027 * 1.02, 6);
+    });
+
+    it('should keep the amounts flat in jurisdictions that do not index', () => {
+        expect(getIndexationFactor('MB', 0.05, 10, 2025)).toBe(1);
+    });
+
+    it('should use the projected rate for years without published factors', () => {
+        expect(getIndexationFactor('NL', 0.03, 2, 2025)).toBeCloseTo(1.03 ** 2, 6);
+    });
+});
+
+describe('getPublishedAmountIndexationFactor', () => {
+    it('should not index the amounts of the published years', () => {
+        expect(getPublishedAmountIndexationFactor('CA', 0.05, 0, 2025, 2024)).toBe(1);
+        expect(getPublishedAmountIndexationFactor('CA', 0.05, 0, 2025)).toBe(1);
+    });
+
+    it('should index the years after the latest published year', () => {
+        expect(getPublishedAmountIndexationFactor('CA', 0.05, 1, 2025, 2026)).toBeCloseTo(1.02 * 1.05, 6);
+    });
+});
+
+describe('getIndexedAmount', () => {
+    it('should index from the TAX_BRACKETS year by default', () => {
+        expect(getIndexedAmount('CA', 1000, 0.1, 1)).toBeCloseTo(1020, 6);
+    });
+
+    it('should index from the tax year', () => {
+        expect(getIndexedAmount('CA', 1000, 0.1, 1, 2023)).toBeCloseTo(1047, 6);
+    });
+});
+
+describe('indexed projections', () => {
+    it('should not move the brackets of a province that does not index', () => {
+        const income = 200000;
+        const manitobaTax = getProvincialBaseTaxAmount('MB', income);
+        const ontarioTax = getProvincialBaseTaxAmount('ON', income);
+
+        expect(getProvincialBaseTaxAmount('MB', income, 0.03, 20)).toBeCloseTo(manitobaTax, 6);
+        expect(getProvincialBaseTaxAmount('ON', income, 0.03, 20)).toBeLessThan(ontarioTax);
+    });
+
+    it('should index the federal basic personal amount', () => {
+        expect(getFederalBasePersonalAmount(0, 0.05, 2)).toBeCloseTo(16129 * 1.02 * 1.05, 6);
+    });
+});
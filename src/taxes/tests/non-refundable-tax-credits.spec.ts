@@ -0,0 +1,154 @@
+import {
+    getFederalTaxCredits,
+    getProvincialTaxCredits,
+    NON_REFUNDABLE_TAX_CREDITS,
+} from '../non-refundable-tax-credits';
+
+describe('getFederalTaxCredits', () => {
+    const taxYear = 2025;
+    const rate = 0.145;
+
+    it('should return no credit for a young worker without income', () => {
+        const credits = getFederalTaxCredits({ age: 30, netIncome: 0 }, 0, 0, taxYear);
+
+        expect(credits.total).toBe(0);
+    });
+
+    it('should give the full age amount below the threshold', () => {
+        const credits = getFederalTaxCredits({ age: 67, netIncome: 40000 }, 0, 0, taxYear);
+
+        expect(credits.lines.age.amount).toBe(NON_REFUNDABLE_TAX_CREDITS.CA.AGE.AMOUNT);
+        expect(credits.lines.age.credit).toBeCloseTo(NON_REFUNDABLE_TAX_CREDITS.CA.AGE.AMOUNT * rate, 6);
+    });
+
+    it('should reduce the age amount by 15% of the income over the threshold', () => {
+        const credits = getFederalTaxCredits({ age: 67, netIncome: 55522 }, 0, 0, taxYear);
+
+        expect(credits.lines.age.amount).toBeCloseTo(9028 - 1500, 6);
+    });
+
+    it('should not give a negative age amount', () => {
+        const credits = getFederalTaxCredits({ age: 67, netIncome: 150000 }, 0, 0, taxYear);
+
+        expect(credits.lines.age.amount).toBe(0);
+    });
+
+    it('should cap the pension and Canada employment amounts', () => {
+        const credits = getFederalTaxCredits({
+            age: 66,
+            netIncome: 100000,
+            pensionIncome: 1500,
+            employmentIncome: 50000,
+        }, 0, 0, taxYear);
+
+        expect(credits.lines.pension.amount).toBe(1500);
+        expect(credits.lines.canadaEmployment.amount).toBe(1471);
+    });
+
+    it('should reduce the spouse amount by the spouse net income', () => {
+        const credits = getFederalTaxCredits({ age: 40, netIncome: 80000, spouseNetIncome: 6129 }, 0, 0, taxYear);
+
+        expect(credits.lines.spouse.amount).toBe(10000);
+        expect(credits.lines.eligibleDependant.amount).toBe(0);
+    });
+
+    it('should give the eligible dependant amount when there is no spouse', () => {
+        const profile = { age: 40, netIncome: 80000, eligibleDependantNetIncome: 0 };
+        const credits = getFederalTaxCredits(profile, 0, 0, taxYear);
+
+        expect(credits.lines.spouse.amount).toBe(0);
+        expect(credits.lines.eligibleDependant.amount).toBe(16129);
+    });
+
+    it('should credit the disability amount and payroll contributions', () => {
+        const credits = getFederalTaxCredits({
+            age: 40,
+            netIncome: 60000,
+            disabled: true,
+            pensionPlanContributions: 3000,
+            employmentInsurancePremiums: 1000,
+        }, 0, 0, taxYear);
+
+        expect(credits.lines.disability.amount).toBe(10138);
+        expect(credits.lines.pensionPlan.credit).toBeCloseTo(435, 6);
+        expect(credits.lines.employmentInsurance.credit).toBeCloseTo(145, 6);
+        expect(credits.total).toBeCloseTo((10138 + 3000 + 1000) * rate, 6);
+    });
+
+    it('should inflate amounts and thresholds', () => {
+        const credits = getFederalTaxCredits({ age: 67, netIncome: 0 }, 0.02, 2);
+
+        expect(credits.lines.age.amount).toBeCloseTo(9028 * (1.02 ** 2), 6);
+    });
+
+    it('should not index the fixed pension amount', () => {
+        const credits = getFederalTaxCredits({ age: 67, netIncome: 0, pensionIncome: 5000 }, 0.02, 2);
+
+        expect(credits.lines.pension.amount).toBe(2000);
+        expect(getProvincialTaxCredits('BC', { age: 67, netIncome: 0, pensionIncome: 5000 }, 0, 0, 2026)
+            .lines.pension.amount).toBe(1000);
+    });
+
+    it('should index the amounts of the tax years after 2025', () => {
+        const credits = getFederalTaxCredits({ age: 67, netIncome: 0 }, 0, 0, 2026);
+
+        expect(credits.lines.age.amount).toBeCloseTo(9028 * 1.02, 6);
+    });
+
+    it('should not support the tax years before 2025', () => {
+        expect(() => getFederalTaxCredits({ age: 67, netIncome: 0 }, 0, 0, 2024)).toThrow(RangeError);
+        expect(() => getProvincialTaxCredits('ON', { age: 67, netIncome: 0 }, 0, 0, 2023)).toThrow(RangeError);
+    });
+});
+
+describe('getProvincialTaxCredits', () => {
+    it('should use the provincial rate and threshold', () => {
+        const credits = getProvincialTaxCredits('ON', { age: 70, netIncome: 56330 });
+
+        expect(credits.lines.age.amount).toBeCloseTo(6223 - 1500, 6);
+        expect(credits.lines.age.credit).toBeCloseTo((6223 - 1500) * 0.0505, 6);
+    });
+
+    it('should apply the spouse income threshold', () => {
+        const credits = getProvincialTaxCredits('ON', { age: 40, netIncome: 80000, spouseNetIncome: 1082 });
+
+        expect(credits.lines.spouse.amount).toBe(10823);
+    });
+
+    it('should not credit payroll contributions in QC', () => {
+        const credits = getProvincialTaxCredits('QC', {
+            age: 40,
+            netIncome: 60000,
+            pensionPlanContributions: 3000,
+            employmentInsurancePremiums: 800,
+            parentalInsurancePremiums: 300,
+        });
+
+        expect(credits.total).toBe(0);
+    });
+
+    it('should reduce the QC age amount by the family net income', () => {
+        const profile = { age: 70, netIncome: 50000, spouseNetIncome: 10000, pensionIncome: 5000 };
+        const credits = getProvincialTaxCredits('QC', profile, 0, 0, 2025);
+        const reduction = (60000 - 42090) * 0.1875;
+
+        expect(credits.lines.age.amount).toBeCloseTo(3906 - reduction, 6);
+        expect(credits.lines.pension.amount).toBe(3374);
+    });
+
+    it('should reduce the QC pension amount once the age amount is reduced to zero', () => {
+        const profile = { age: 70, netIncome: 60000, spouseNetIncome: 10000, pensionIncome: 5000 };
+        const credits = getProvincialTaxCredits('QC', profile, 0, 0, 2025);
+        const reduction = (70000 - 42090) * 0.1875;
+
+        expect(credits.lines.age.amount).toBe(0);
+        expect(credits.lines.pension.amount).toBeCloseTo(3374 - (reduction - 3906), 6);
+    });
+
+    it('should index the pension amount of the jurisdictions indexing it', () => {
+        const credits = getProvincialTaxCredits('ON', { age: 67, netIncome: 0, pensionIncome: 5000 }, 0.02, 2);
+
+        // Published 2026 ON factor, then the projected inflation rate
+        expect(credits.lines.pension.amount).toBeCloseTo(1762 * 1.019 * 1.02, 6);
+    });
+});
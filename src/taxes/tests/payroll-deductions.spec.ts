@@ -0,0 +1,134 @@
+import { CPP } from '../../pension/canada-pension-plan';
+import { QPP } from '../../pension/quebec-pension-plan';
+import { EI } from '../employment-insurance';
+import { getFederalTaxCreditRate, getProvincialTaxCreditRate } from '../income-tax';
+import {
+    getAnnualFederalWithholding,
+    getAnnualProvincialWithholding,
+    getPayrollContributions,
+    getPayrollDeductions,
+    getPayrollInsuranceCosts,
+    PAY_PERIODS,
+} from '../payroll-deductions';
+import { QPIP } from '../quebec-parental-insurance-plan';
+
+describe('getPayrollContributions', () => {
+    it('should use the CPP and EI rates outside of QC', () => {
+        const contributions = getPayrollContributions('ON', 60000);
+        const cpp = CPP.getContributions(60000);
+
+        expect(contributions.pensionPlan).toBeCloseTo(cpp.employee, 6);
+        expect(contributions.pensionPlanEnhancement).toBeCloseTo(cpp.firstEnhancement, 6);
+        expect(contributions.employmentInsurance).toBeCloseTo(60000 * EI.PREMIUM_RATES.CA, 6);
+        expect(contributions.parentalInsurance).toBe(0);
+    });
+
+    it('should use the QPP, QC EI and QPIP rates in QC', () => {
+        const contributions = getPayrollContributions('QC', 60000);
+
+        expect(contributions.pensionPlan).toBeCloseTo(QPP.getContributions(60000).employee, 6);
+        expect(contributions.employmentInsurance).toBeCloseTo(60000 * EI.PREMIUM_RATES.QC, 6);
+        expect(contributions.parentalInsurance).toBeCloseTo(60000 * QPIP.PREMIUM_RATES.SALARIED, 6);
+    });
+
+    it('should cap the premiums at the maximum insurable earnings', () => {
+        const contributions = getPayrollContributions('QC', 200000);
+
+        expect(contributions.employmentInsurance).toBeCloseTo(EI.MAX_INSURABLE_EARNINGS * EI.PREMIUM_RATES.QC, 6);
+        expect(contributions.parentalInsurance)
+            .toBeCloseTo(QPIP.MAX_INSURABLE_EARNINGS * QPIP.PREMIUM_RATES.SALARIED, 6);
+    });
+});
+
+describe('getPayrollInsuranceCosts', () => {
+    it('should add the employer EI premium outside of QC', () => {
+        const costs = getPayrollInsuranceCosts('ON', 50000);
+
+        expect(costs.employee).toBeCloseTo(50000 * 0.0164, 6);
+        expect(costs.employer).toBeCloseTo(50000 * 0.0164 * 1.4, 6);
+        expect(costs.total).toBeCloseTo(50000 * 0.0164 * 2.4, 6);
+    });
+
+    it('should add the employee and employer QPIP premiums in QC', () => {
+        const costs = getPayrollInsuranceCosts('QC', 50000);
+
+        expect(costs.employee).toBeCloseTo(50000 * (0.0131 + 0.00494), 6);
+        expect(costs.employer).toBeCloseTo(50000 * ((0.0131 * 1.4) + 0.00692), 6);
+    });
+
+    it('should deduct the refunded EI premiums from the employee cost', () => {
+        const costs = getPayrollInsuranceCosts('ON', 1500);
+
+        expect(costs.employee).toBe(0);
+        expect(costs.employer).toBeCloseTo(1500 * 0.0164 * 1.4, 6);
+    });
+});
+
+describe('getAnnualFederalWithholding', () => {
+    it('should reduce the tax by the credit of the additional claim amount', () => {
+        const defaultTax = getAnnualFederalWithholding('ON', 80000);
+        const tax = getAnnualFederalWithholding('ON', 80000, { federal: 16129 + 10000 });
+
+        expect(defaultTax - tax).toBeCloseTo(10000 * getFederalTaxCreditRate(0), 6);
+    });
+
+    it('should apply the QC abatement', () => {
+        expect(getAnnualFederalWithholding('QC', 80000)).toBeLessThan(getAnnualFederalWithholding('ON', 80000));
+    });
+
+    it('should not withhold tax under the claim amounts', () => {
+        expect(getAnnualFederalWithholding('AB', 15000)).toBe(0);
+        expect(getAnnualProvincialWithholding('AB', 15000)).toBe(0);
+    });
+});
+
+describe('getAnnualProvincialWithholding', () => {
+    it('should reduce the tax by the credit of the additional claim amount', () => {
+        const defaultTax = getAnnualProvincialWithholding('AB', 80000);
+        const tax = getAnnualProvincialWithholding('AB', 80000, { provincial: 22323 + 10000 });
+
+        expect(defaultTax - tax).toBeCloseTo(10000 * getProvincialTaxCreditRate('AB', 0), 6);
+    });
+
+    it('should include the Ontario Health Premium', () => {
+        const tax = getAnnualProvincialWithholding('ON', 80000);
+        const taxWithoutPremium = getAnnualProvincialWithholding('ON', 80000, { provincial: 1000000 });
+
+        expect(taxWithoutPremium).toBeCloseTo(750, 6);
+        expect(tax).toBeGreaterThan(taxWithoutPremium);
+    });
+});
+
+describe('getPayrollDeductions', () => {
+    it('should divide the annual deductions by the pay periods', () => {
+        const monthly = getPayrollDeductions('ON', 78000, 'MONTHLY');
+        const weekly = getPayrollDeductions('ON', 78000, 'WEEKLY');
+
+        expect(monthly.grossPay).toBe(6500);
+        expect(weekly.grossPay).toBe(1500);
+        expect(weekly.federalTax * PAY_PERIODS.WEEKLY).toBeCloseTo(monthly.federalTax * PAY_PERIODS.MONTHLY, 6);
+        expect(weekly.pensionPlan * 52).toBeCloseTo(getPayrollContributions('ON', 78000).pensionPlan, 6);
+    });
+
+    it('should balance the net pay with the deductions', () => {
+        const deductions = getPayrollDeductions('QC', 65000, 'BIWEEKLY', { federal: 18000, provincial: 20000 });
+        const { pensionPlan, employmentInsurance, parentalInsurance, federalTax, provincialTax } = deductions;
+
+        expect(deductions.payPeriods).toBe(26);
+        expect(deductions.totalDeductions)
+            .toBeCloseTo(pensionPlan + employmentInsurance + parentalInsurance + federalTax + provincialTax, 6);
+        expect(deductions.netPay + deductions.totalDeductions).toBeCloseTo(deductions.grossPay, 6);
+        expect(parentalInsurance).toBeGreaterThan(0);
+    });
+
+    it('should use a published tax year', () => {
+        const deductions = getPayrollDeductions('BC', 60000, 'SEMI_MONTHLY', {}, 2025);
+
+        expect(deductions.pensionPlan * 24).toBeCloseTo(CPP.getContributions(60000, 12, 2025).employee, 6);
+        expect(deductions.federalTax).not.toBeCloseTo(getPayrollDeductions('BC', 60000, 'SEMI_MONTHLY').federalTax);
+    });
+
+    it('should not support the tax years without non-refundable tax credit amounts', () => {
+        expect(() => getPayrollDeductions('BC', 60000, 'SEMI_MONTHLY', {}, 2023)).toThrow(RangeError);
+    });
+});
@@ -0,0 +1,96 @@
+import {
+    getHouseholdTax,
+    getMaxPensionIncomeTransfer,
+    getOptimalPensionIncomeSplitting,
+    SpouseIncome,
+} from '../pension-income-splitting';
+
+const retiree: SpouseIncome = {
+    age: 70,
+    otherIncome: 5000,
+    pensionIncome: { definedBenefit: 40000, retirementIncomeFund: 30000 },
+    cppPension: 15000,
+    oasPension: 8800,
+};
+
+const spouse: SpouseIncome = {
+    age: 68,
+    otherIncome: 0,
+    cppPension: 5000,
+    oasPension: 8800,
+};
+
+describe('getMaxPensionIncomeTransfer', () => {
+    it('should return half of the eligible pension income', () => {
+        expect(getMaxPensionIncomeTransfer(retiree)).toBe(35000);
+    });
+
+    it('should only count the registered pension plan annuity under 65', () => {
+        expect(getMaxPensionIncomeTransfer({ ...retiree, age: 60 })).toBe(20000);
+        expect(getMaxPensionIncomeTransfer(spouse)).toBe(0);
+    });
+});
+
+describe('getHouseholdTax', () => {
+    it('should move the transferred amount to the net income of the other spouse', () => {
+        const [first, second] = getHouseholdTax('ON', [retiree, spouse], 10000);
+
+        expect(first.netIncome).toBe(88800);
+        expect(second.netIncome).toBe(23800);
+        expect(first.pensionCreditIncome + second.pensionCreditIncome).toBeCloseTo(70000, 6);
+    });
+
+    it('should not give the pension amount on RRIF income transferred to a spouse under 65', () => {
+        const [, second] = getHouseholdTax('ON', [retiree, { ...spouse, age: 60 }], 7000);
+
+        expect(second.pensionCreditIncome).toBeCloseTo(4000, 6);
+    });
+
+    it('should share the CPP pensions equally', () => {
+        const [first, second] = getHouseholdTax('ON', [retiree, spouse], 0, { cppSharing: true });
+
+        expect(first.netIncome).toBe(93800);
+        expect(second.netIncome).toBe(18800);
+    });
+
+    it('should add the OAS recovery tax to the tax of the spouse', () => {
+        const [first] = getHouseholdTax('ON', [{ ...retiree, otherIncome: 40000 }, spouse], 0);
+
+        expect(first.oasRepayment).toBeCloseTo((133800 - 93454) * 0.15, 6);
+        expect(first.totalTax).toBeGreaterThan(first.oasRepayment);
+    });
+});
+
+describe('getOptimalPensionIncomeSplitting', () => {
+    it('should transfer pension income to the lower income spouse', () => {
+        const result = getOptimalPensionIncomeSplitting('ON', [retiree, spouse]);
+
+        expect(result.transfer).toBeGreaterThan(20000);
+        expect(result.transfer).toBeLessThanOrEqual(35000);
+        expect(result.taxSaved).toBeGreaterThan(2000);
+        expect(result.taxSaved).toBeCloseTo(result.taxWithoutSplitting - result.taxWithSplitting, 6);
+    });
+
+    it('should transfer from the second spouse when it has the higher income', () => {
+        const result = getOptimalPensionIncomeSplitting('BC', [spouse, retiree]);
+
+        expect(result.transfer).toBeLessThan(-20000);
+    });
+
+    it('should not find a better transfer than the optimal one', () => {
+        const result = getOptimalPensionIncomeSplitting('QC', [retiree, spouse]);
+        const getTax = (transfer: number): number => getHouseholdTax('QC', [retiree, spouse], transfer)
+            .reduce((previous, spouseTax) => previous + spouseTax.totalTax, 0);
+
+        [0, 5000, 10000, 15000, 20000, 25000, 30000, 35000].forEach((transfer) => {
+            expect(result.taxWithSplitting).toBeLessThanOrEqual(getTax(transfer) + 1e-6);
+        });
+    });
+
+    it('should not split without eligible pension income', () => {
+        const result = getOptimalPensionIncomeSplitting('ON', [{ ...retiree, pensionIncome: undefined }, spouse]);
+
+        expect(result.transfer).toBe(0);
+        expect(result.taxSaved).toBe(0);
+    });
+});
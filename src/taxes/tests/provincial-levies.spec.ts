@@ -0,0 +1,55 @@
+import { getTotalTaxAmount } from '../income-tax';
+import { getProvincialLevies, getTotalTaxDetails } from '../provincial-levies';
+
+describe('getProvincialLevies', () => {
+    it('should not have levies in provinces without one', () => {
+        expect(getProvincialLevies('AB', 100000)).toEqual({ lines: {}, total: 0 });
+    });
+
+    it('should phase in the Ontario Health Premium', () => {
+        expect(getProvincialLevies('ON', 20000).total).toBe(0);
+        expect(getProvincialLevies('ON', 22500).total).toBeCloseTo(150, 6);
+        expect(getProvincialLevies('ON', 30000).total).toBeCloseTo(300, 6);
+        expect(getProvincialLevies('ON', 48300).total).toBeCloseTo(525, 6);
+        expect(getProvincialLevies('ON', 60000).total).toBeCloseTo(600, 6);
+        expect(getProvincialLevies('ON', 100000).total).toBeCloseTo(750, 6);
+    });
+
+    it('should cap the Ontario Health Premium at 900', () => {
+        expect(getProvincialLevies('ON', 1000000).lines.ONTARIO_HEALTH_PREMIUM).toBeCloseTo(900, 6);
+    });
+
+    it('should not index the Ontario Health Premium', () => {
+        expect(getProvincialLevies('ON', 30000, 0.1, 5).total).toBeCloseTo(300, 6);
+    });
+
+    it('should apply the health services fund contribution to the non-employment income only', () => {
+        expect(getProvincialLevies('QC', 100000).total).toBe(0);
+        expect(getProvincialLevies('QC', 100000, 0, 0, 27135).lines.HEALTH_SERVICES_FUND).toBeCloseTo(100, 6);
+        expect(getProvincialLevies('QC', 100000, 0, 0, 100000).total).toBeCloseTo(150 + 380.55, 6);
+        expect(getProvincialLevies('QC', 500000, 0, 0, 500000).total).toBeCloseTo(1000, 6);
+    });
+
+    it('should index the health services fund thresholds to the tax year', () => {
+        const threshold = 17135 * 1.0205;
+
+        expect(getProvincialLevies('QC', 100000, 0, 0, 27135, 2026).lines.HEALTH_SERVICES_FUND)
+            .toBeCloseTo((27135 - threshold) * 0.01, 6);
+        expect(getProvincialLevies('ON', 30000, 0, 0, 0, 2026).total).toBeCloseTo(300, 6);
+    });
+
+    it('should use the health services fund thresholds of the tax year', () => {
+        expect(getProvincialLevies('QC', 100000, 0, 0, 26660, 2024).lines.HEALTH_SERVICES_FUND).toBeCloseTo(100, 6);
+        expect(getProvincialLevies('QC', 100000, 0, 0, 100000, 2024).total).toBeCloseTo(150 + 397.7, 6);
+    });
+});
+
+describe('getTotalTaxDetails', () => {
+    it('should add the levies to the total tax', () => {
+        const details = getTotalTaxDetails('ON', 100000);
+
+        expect(details.levies.total).toBeCloseTo(750, 6);
+        expect(details.federalTax + details.provincialTax).toBeCloseTo(getTotalTaxAmount('ON', 100000), 6);
+        expect(details.totalTax).toBeCloseTo(getTotalTaxAmount('ON', 100000) + 750, 6);
+    });
+});
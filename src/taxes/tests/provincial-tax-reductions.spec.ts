@@ -0,0 +1,102 @@
+import { getProvincialTaxAmount, getProvincialTaxReduction } from '../income-tax';
+import {
+    BC_TAX_REDUCTION,
+    NO_HOUSEHOLD,
+    NS_LOW_INCOME_TAX_REDUCTION,
+    ON_TAX_REDUCTION,
+    SK_LOW_INCOME_CREDIT,
+} from '../provincial-tax-reductions';
+
+const context = {
+    ...NO_HOUSEHOLD,
+    income: 20000,
+    tax: 1000,
+    indexationFactor: 1,
+};
+
+describe('ON_TAX_REDUCTION', () => {
+    it('should reduce by twice the personal reduction minus the tax', () => {
+        expect(ON_TAX_REDUCTION.getReduction({ ...context, tax: 400 })).toBe((2 * 294) - 400);
+    });
+
+    it('should add the reduction for each dependant', () => {
+        expect(ON_TAX_REDUCTION.getReduction({ ...context, tax: 1500, dependants: 2 })).toBe((2 * (294 + 1088)) - 1500);
+    });
+
+    it('should not exceed the tax', () => {
+        expect(ON_TAX_REDUCTION.getReduction({ ...context, tax: 100 })).toBe(100);
+    });
+
+    it('should be 0 when the tax is over twice the personal reduction', () => {
+        expect(ON_TAX_REDUCTION.getReduction({ ...context, tax: 2000 })).toBe(0);
+    });
+});
+
+describe('initializeIncomeTestedTaxReduction', () => {
+    it('should give the full amount under the threshold', () => {
+        expect(BC_TAX_REDUCTION.getReduction(context)).toBe(562);
+    });
+
+    it('should reduce the amount by a percentage of the income over the threshold', () => {
+        expect(BC_TAX_REDUCTION.getReduction({ ...context, income: 35020 })).toBeCloseTo(562 - 356, 6);
+        expect(BC_TAX_REDUCTION.getReduction({ ...context, income: 50000 })).toBe(0);
+    });
+
+    it('should use the family income and household amounts', () => {
+        const household = { hasSpouse: true, dependants: 2, familyNetIncome: 19000 };
+
+        expect(NS_LOW_INCOME_TAX_REDUCTION.getReduction({ ...context, ...household }))
+            .toBeCloseTo(300 + 165 + 330 - 200, 6);
+    });
+
+    it('should limit the number of dependants', () => {
+        const household = { hasSpouse: false, dependants: 4 };
+
+        expect(SK_LOW_INCOME_CREDIT.getReduction({ ...context, ...household })).toBe(429 + (2 * 169));
+    });
+
+    it('should inflate the amounts and threshold', () => {
+        const inflatedContext = { ...context, income: 25020 * 1.1, indexationFactor: 1.1 };
+
+        expect(BC_TAX_REDUCTION.getReduction(inflatedContext)).toBeCloseTo(562 * 1.1, 6);
+    });
+});
+
+describe('getProvincialTaxAmount', () => {
+    it('should apply the provincial tax reduction', () => {
+        const provincialTax = getProvincialTaxAmount('BC', 20000);
+        const taxBeforeReduction = ((20000 - 12932) * 0.0506);
+
+        expect(provincialTax).toBeCloseTo(Math.max(taxBeforeReduction - 562, 0), 6);
+    });
+
+    it('should pass the household to the reduction', () => {
+        const household = { hasSpouse: false, dependants: 2 };
+        const reduction = getProvincialTaxReduction('ON', 30000, 1500, 0, 0, undefined, household);
+
+        expect(reduction).toBe((2 * (294 + 1088)) - 1500);
+    });
+
+    it('should project the reduction with the indexation factors of the province', () => {
+        // Published 2026 BC factor, then the projected inflation rate
+        const reduction = getProvincialTaxReduction('BC', 0, 5000, 0.1, 2);
+
+        expect(reduction).toBeCloseTo(562 * 1.022 * 1.1, 6);
+    });
+
+    it('should phase out the reduction of the tax year', () => {
+        const reduction = getProvincialTaxReduction('BC', 30000, 5000, 0, 0, 2024);
+
+        expect(reduction).toBeCloseTo(547 - ((30000 - 24338) * 0.0356), 6);
+    });
+
+    it('should not apply the NB and SK reductions before 2025', () => {
+        expect(getProvincialTaxReduction('NB', 15000, 5000, 0, 0, 2023)).toBe(0);
+        expect(getProvincialTaxReduction('SK', 15000, 5000, 0, 0, 2024)).toBe(0);
+        expect(getProvincialTaxReduction('NB', 15000, 5000, 0, 0, 2025)).toBe(881);
+    });
+
+    it('should not reduce the tax of provinces without reduction', () => {
+        expect(getProvincialTaxReduction('AB', 20000, 500)).toBe(0);
+    });
+});
@@ -0,0 +1,131 @@
+import {
+    getQpipAverageWeeklyEarnings,
+    getQpipBenefits,
+    getQpipPremiums,
+    getQpipWeeklyRates,
+    getQuebecParentalInsurancePlan,
+    getSelfEmployedQpipPremium,
+    getSharedParentalBenefits,
+    hasSharedWeeksBonus,
+    QPIP,
+} from '../quebec-parental-insurance-plan';
+
+describe('getQuebecParentalInsurancePlan', () => {
+    it('should return the current year without year or after the last published year', () => {
+        expect(getQuebecParentalInsurancePlan()).toBe(QPIP);
+        expect(getQuebecParentalInsurancePlan(2030)).toBe(QPIP);
+    });
+
+    it('should return the maximum insurable earnings and rates of the year', () => {
+        const qpip = getQuebecParentalInsurancePlan(2019);
+
+        expect(qpip.MAX_INSURABLE_EARNINGS).toBe(76500);
+        expect(qpip.PREMIUM_RATES.SALARIED).toBe(0.00526);
+        expect(qpip.PREMIUM_RATES.SELF_EMPLOYED).toBe(0.00934);
+    });
+});
+
+describe('getQpipPremiums', () => {
+    it('should charge the salaried and employer rates up to the maximum insurable earnings', () => {
+        const premiums = getQpipPremiums(50000);
+
+        expect(premiums.employee).toBeCloseTo(50000 * 0.00494, 6);
+        expect(premiums.employer).toBeCloseTo(50000 * 0.00692, 6);
+        expect(getQpipPremiums(200000, 2018).employer).toBeCloseTo(74000 * 0.00767, 6);
+    });
+
+    it('should charge the self-employed rate to self-employed workers', () => {
+        expect(getSelfEmployedQpipPremium(50000)).toBeCloseTo(50000 * 0.00878, 6);
+    });
+});
+
+describe('getQpipAverageWeeklyEarnings', () => {
+    it('should cap the earnings at the maximum insurable earnings of the year', () => {
+        expect(getQpipAverageWeeklyEarnings(52000)).toBe(1000);
+        expect(getQpipAverageWeeklyEarnings(150000)).toBeCloseTo(98000 / 52, 6);
+        expect(getQpipAverageWeeklyEarnings(150000, 2023)).toBeCloseTo(91000 / 52, 6);
+    });
+});
+
+describe('getQpipWeeklyRates', () => {
+    it('should list the rate of each week in order', () => {
+        const rates = getQpipWeeklyRates('BASIC', 'PARENTAL');
+
+        expect(rates).toHaveLength(32);
+        expect(rates[6]).toBe(0.70);
+        expect(rates[7]).toBe(0.55);
+    });
+
+    it('should add the shared weeks bonus at the end', () => {
+        expect(getQpipWeeklyRates('BASIC', 'PARENTAL', true)).toHaveLength(36);
+        expect(getQpipWeeklyRates('SPECIAL', 'PARENTAL', true)).toEqual(Array(28).fill(0.75));
+    });
+});
+
+describe('getQpipBenefits', () => {
+    it('should pay the maternity benefits of the plan', () => {
+        expect(getQpipBenefits('BASIC', 'MATERNITY', 52000).total).toBeCloseTo(18 * 700, 6);
+        expect(getQpipBenefits('SPECIAL', 'MATERNITY', 52000).total).toBeCloseTo(15 * 750, 6);
+    });
+
+    it('should pay the weeks taken at the rates of the periods', () => {
+        const benefits = getQpipBenefits('BASIC', 'ADOPTION', 52000, 20);
+
+        expect(benefits.paidWeeks).toBe(20);
+        expect(benefits.total).toBeCloseTo((12 * 700) + (8 * 550), 6);
+    });
+
+    it('should not pay more than the weeks of the benefit', () => {
+        expect(getQpipBenefits('SPECIAL', 'PATERNITY', 52000, 10).paidWeeks).toBe(3);
+    });
+});
+
+describe('hasSharedWeeksBonus', () => {
+    it('should require minimum parental weeks from each parent', () => {
+        expect(hasSharedWeeksBonus('BASIC', [24, 8])).toBe(true);
+        expect(hasSharedWeeksBonus('BASIC', [25, 7])).toBe(false);
+        expect(hasSharedWeeksBonus('SPECIAL', [19, 6])).toBe(true);
+    });
+});
+
+describe('getSharedParentalBenefits', () => {
+    it('should give the first weeks to the first parent', () => {
+        const [first, second] = getSharedParentalBenefits('BASIC', [
+            { annualIncome: 52000, weeks: 10 },
+            { annualIncome: 78000, weeks: 10 },
+        ]);
+
+        expect(first.total).toBeCloseTo((7 * 700) + (3 * 550), 6);
+        expect(second.total).toBeCloseTo(10 * 1500 * 0.55, 6);
+    });
+
+    it('should add the bonus weeks when both parents share the leave', () => {
+        const [first, second] = getSharedParentalBenefits('BASIC', [
+            { annualIncome: 52000, weeks: 24 },
+            { annualIncome: 52000, weeks: 20 },
+        ]);
+
+        expect(first.paidWeeks).toBe(24);
+        expect(second.paidWeeks).toBe(12);
+    });
+
+    it('should not add the bonus weeks when a parent takes the whole leave', () => {
+        const [first, second] = getSharedParentalBenefits('SPECIAL', [
+            { annualIncome: 52000, weeks: 30 },
+            { annualIncome: 52000, weeks: 0 },
+        ]);
+
+        expect(first.paidWeeks).toBe(25);
+        expect(second.total).toBe(0);
+    });
+
+    it('should not add the bonus weeks when a parent is granted less than the minimum weeks', () => {
+        const [first, second] = getSharedParentalBenefits('BASIC', [
+            { annualIncome: 52000, weeks: 30 },
+            { annualIncome: 52000, weeks: 10 },
+        ]);
+
+        expect(first.paidWeeks).toBe(30);
+        expect(second.paidWeeks).toBe(2);
+    });
+});
@@ -0,0 +1,101 @@
+import {
+    getGstHstCredit,
+    getProvincialRefundableCredits,
+    getRefundableCredits,
+    NS_AFFORDABLE_LIVING_TAX_CREDIT,
+    ONTARIO_SALES_TAX_CREDIT,
+    QC_SOLIDARITY_TAX_CREDIT,
+} from '../refundable-credits';
+
+describe('getGstHstCredit', () => {
+    it('should phase in the single supplement and pay quarterly', () => {
+        const credit = getGstHstCredit({ familyNetIncome: 15000, hasSpouse: false, children: 0 });
+
+        expect(credit.annual).toBeCloseTo(349 + ((15000 - 11337) * 0.02), 6);
+        expect(credit.payments).toBe(4);
+        expect(credit.perPayment).toBeCloseTo(credit.annual / 4, 6);
+    });
+
+    it('should give the spouse amount for the first child of a single parent', () => {
+        const credit = getGstHstCredit({ familyNetIncome: 20000, hasSpouse: false, children: 2 });
+
+        expect(credit.annual).toBe(349 + 349 + 184 + 184);
+    });
+
+    it('should reduce the credit by 5% of the family net income over the threshold', () => {
+        const credit = getGstHstCredit({ familyNetIncome: 50000, hasSpouse: true, children: 2 });
+
+        expect(credit.annual).toBeCloseTo(349 + 349 + (2 * 184) - ((50000 - 45521) * 0.05), 6);
+    });
+
+    it('should pay a single amount under 50 per quarter', () => {
+        const credit = getGstHstCredit({ familyNetIncome: 54000, hasSpouse: false, children: 0 });
+
+        expect(credit.annual).toBeCloseTo(533 - ((54000 - 45521) * 0.05), 6);
+        expect(credit.payments).toBe(1);
+    });
+
+    it('should not pay anything above the phase-out', () => {
+        expect(getGstHstCredit({ familyNetIncome: 100000, hasSpouse: true, children: 0 }))
+            .toEqual({ annual: 0, payments: 0, perPayment: 0 });
+    });
+});
+
+describe('ONTARIO_SALES_TAX_CREDIT', () => {
+    it('should use the family threshold and pay monthly', () => {
+        const credit = ONTARIO_SALES_TAX_CREDIT.getCredit({ familyNetIncome: 40000, hasSpouse: true, children: 2 });
+
+        expect(credit.annual).toBeCloseTo(1484 - ((40000 - 36630) * 0.04), 6);
+        expect(credit.payments).toBe(12);
+    });
+
+    it('should pay a single amount up to 360', () => {
+        const credit = ONTARIO_SALES_TAX_CREDIT.getCredit({ familyNetIncome: 30000, hasSpouse: false, children: 0 });
+
+        expect(credit.annual).toBeCloseTo(371 - ((30000 - 29304) * 0.04), 6);
+        expect(credit.payments).toBe(1);
+    });
+});
+
+describe('QC_SOLIDARITY_TAX_CREDIT', () => {
+    it('should add the supplement for a person living alone', () => {
+        const credit = QC_SOLIDARITY_TAX_CREDIT.getCredit({ familyNetIncome: 30000, hasSpouse: false, children: 0 });
+
+        expect(credit.annual).toBe(371 + 353 + 178);
+        expect(credit.payments).toBe(12);
+    });
+
+    it('should pay quarterly or annually on smaller amounts', () => {
+        const household = { familyNetIncome: 55000, hasSpouse: true, children: 0 };
+
+        expect(QC_SOLIDARITY_TAX_CREDIT.getCredit(household).payments).toBe(4);
+        expect(QC_SOLIDARITY_TAX_CREDIT.getCredit({ ...household, familyNetIncome: 62000 }).payments).toBe(1);
+    });
+});
+
+describe('NS_AFFORDABLE_LIVING_TAX_CREDIT', () => {
+    it('should not go under zero', () => {
+        expect(NS_AFFORDABLE_LIVING_TAX_CREDIT.getCredit({ familyNetIncome: 40000, hasSpouse: true, children: 2 }))
+            .toEqual({ annual: 0, payments: 0, perPayment: 0 });
+    });
+});
+
+describe('getRefundableCredits', () => {
+    const household = { familyNetIncome: 35000, hasSpouse: true, children: 1 };
+
+    it('should add the GST/HST credit and the credits of the province', () => {
+        const credits = getRefundableCredits('NB', household);
+
+        expect(Object.keys(credits.lines)).toEqual(['GST_HST_CREDIT', 'NB_HST_CREDIT']);
+        expect(credits.federal).toBeCloseTo(getGstHstCredit(household).annual, 6);
+        expect(credits.provincial).toBeCloseTo(getProvincialRefundableCredits('NB', household), 6);
+        expect(credits.provincial).toBe(900);
+        expect(credits.total).toBeCloseTo(credits.federal + credits.provincial, 6);
+    });
+
+    it('should not have provincial credits in provinces without one', () => {
+        expect(getRefundableCredits('AB', household).provincial).toBe(0);
+        // The BC climate action tax credit ended in April 2025
+        expect(getRefundableCredits('BC', household).provincial).toBe(0);
+    });
+});
@@ -6,3 +6,13 @@ export function maxBy<T>(
 
     return values.find((item) => mapFn(item) === max);
 }
+
+// Years after the last published year use the current values, years before the first one use the first values
+export function getByYear<T>(byYear: { [year: number]: T }, current: T, year?: number): T {
+    const years = Object.keys(byYear).map(Number);
+    if (year === undefined || !years.length || year > Math.max(...years)) {
+        return current;
+    }
+    const publishedYear = Math.max(...years.filter((key) => key <= year), Math.min(...years));
+    return byYear[publishedYear];
+}
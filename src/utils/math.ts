@@ -11,3 +11,7 @@ export function roundToPrecision(value: number, precision = 0): number {
     }
     return 0;
 }
+
+export function inflate(amount: number, inflationRate: number, yearsToInflate: number): number {
+    return amount * ((1 + inflationRate) ** yearsToInflate);
+}
@@ -1,4 +1,4 @@
-import { maxBy } from '../collections';
+import { getByYear, maxBy } from '../collections';
 
 describe('maxBy', () => {
     it('should return maximum value by mapping function', () => {
@@ -22,3 +22,18 @@ describe('maxBy', () => {
         expect(valueWithMaxA).toBe(maxA);
     });
 });
+
+describe('getByYear', () => {
+    const byYear = { 2020: 'a', 2021: 'b', 2023: 'c' };
+
+    it('should return the current value without year or after the last year', () => {
+        expect(getByYear(byYear, 'current')).toBe('current');
+        expect(getByYear(byYear, 'current', 2024)).toBe('current');
+    });
+
+    it('should return the value of the last published year', () => {
+        expect(getByYear(byYear, 'current', 2021)).toBe('b');
+        expect(getByYear(byYear, 'current', 2022)).toBe('b');
+        expect(getByYear(byYear, 'current', 2010)).toBe('a');
+    });
+});
@@ -1,4 +1,4 @@
-import { clamp, roundToPrecision } from '../math';
+import { clamp, inflate, roundToPrecision } from '../math';
 
 describe('roundToPrecision', () => {
     it('should round to integer by default', () => {
@@ -35,3 +35,13 @@ describe('clamp', () => {
         expect(clamp(value, min, max)).toBe(expected);
     });
 });
+
+describe('inflate', () => {
+    it('should compound the inflation rate over the years', () => {
+        expect(inflate(1000, 0.1, 2)).toBeCloseTo(1210, 6);
+    });
+
+    it('should return the amount when there is no year to inflate', () => {
+        expect(inflate(1000, 0.1, 0)).toBe(1000);
+    });
+});
@@ -42,6 +42,16 @@ describe('Tax Calculation API - Data Endpoints', () => {
       expect(response.body.success).toBe(false);
       expect(response.body.code).toBe('INVALID_YEAR');
     });
+
+    it('should return 400 for a year before the published brackets', async () => {
+      const response = await request(app)
+        .get('/api/data/tax-brackets/2010/ON')
+        .set('X-API-Key', API_KEY);
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+      expect(response.body.code).toBe('INVALID_YEAR');
+    });
   });
 
   describe('GET /api/data/pension-limits/:year', () => {
@@ -61,6 +71,17 @@ describe('Tax Calculation API - Data Endpoints', () => {
       expect(response.body.data.ei).toHaveProperty('maxInsurableEarnings');
     });
 
+    it('should return the EI parameters of a past year', async () => {
+      const response = await request(app)
+        .get('/api/data/pension-limits/2023')
+        .set('X-API-Key', API_KEY);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.ei.maxInsurableEarnings).toBe(61500);
+      expect(response.body.data.ei.premiumRates).toEqual({ ca: 0.0163, qc: 0.0127 });
+      expect(response.body.data.cpp.ympe).toBe(66600);
+    });
+
     it('should return 400 for invalid year', async () => {
       const response = await request(app)
         .get('/api/data/pension-limits/1999')
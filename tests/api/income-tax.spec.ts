@@ -101,5 +101,24 @@ describe('Tax Calculation API - Income Tax Endpoint', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data.province).toBe('BC');
     });
+
+    it('should calculate the income tax of the requested year', async () => {
+      const calculate = (year: number) => request(app)
+        .post('/api/calculate/income-tax')
+        .set('X-API-Key', API_KEY)
+        .send({
+          grossIncome: 75000,
+          province: 'ON',
+          year
+        });
+
+      const response2024 = await calculate(2024);
+      const response2025 = await calculate(2025);
+
+      expect(response2024.status).toBe(200);
+      expect(response2025.status).toBe(200);
+      expect(response2024.body.data.federalTax).not.toBe(response2025.body.data.federalTax);
+      expect(response2024.body.data.totalTax).not.toBe(response2025.body.data.totalTax);
+    });
   });
 });
\ No newline at end of file
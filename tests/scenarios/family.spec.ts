@@ -3,6 +3,8 @@ import {
     getProvincialTaxAmount,
 } from '../../src/taxes/income-tax';
 
+import { getChildBenefits } from '../../src/taxes/child-benefits';
+import { getEiBenefitRepayment, getEiBenefits } from '../../src/taxes/employment-insurance';
 import { CPP } from '../../src/pension/canada-pension-plan';
 import { ProvinceCode } from '../../src/misc/code-types';
 
@@ -81,6 +83,18 @@ describe('Tax Scenario Tests - Family Scenarios', () => {
             expect(federalTax).toBeLessThan(8000);
         });
 
+        it('should receive a reduced Canada Child Benefit on the family income', () => {
+            const benefits = getChildBenefits(scenario.province, {
+                familyNetIncome: scenario.combinedIncome - scenario.rrspContributions,
+                childrenAges: scenario.childAges,
+            });
+
+            // Both children are in the second tier of the phase-out, over the Ontario Child Benefit income range
+            expect(benefits.federal).toBeGreaterThan(6000);
+            expect(benefits.federal).toBeLessThan(7997 + 6748);
+            expect(benefits.provincial).toBe(0);
+        });
+
         it('should benefit from family tax planning', () => {
             // Test income splitting benefits through RRSP contributions
             const totalTaxCredits = scenario.federalTaxCredits + scenario.provincialTaxCredits;
@@ -119,6 +133,17 @@ describe('Tax Scenario Tests - Family Scenarios', () => {
             expect(federalTax).toBeLessThan(10000);
         });
 
+        it('should receive the CCB and the BC Family Benefit with the single parent supplement', () => {
+            const benefits = getChildBenefits(scenario.province, {
+                familyNetIncome: scenario.taxableIncome,
+                childrenAges: [scenario.childAge],
+                singleParent: true,
+            });
+
+            expect(benefits.lines.CANADA_CHILD_BENEFIT).toBeCloseTo(6748 - ((58000 - 37487) * 0.07), 6);
+            expect(benefits.lines.BC_FAMILY_BENEFIT).toBeGreaterThan(625);
+        });
+
         it('should calculate BC provincial tax', () => {
             const provincialTax = getProvincialTaxAmount(
                 scenario.province,
@@ -158,4 +183,54 @@ describe('Tax Scenario Tests - Family Scenarios', () => {
             expect(afterTaxIncome / scenario.taxableIncome).toBeGreaterThan(0.70); // Less than 30% total tax
         });
     });
+
+    describe('Parental leave after a birth', () => {
+        const scenario = {
+            name: 'Sarah Martinez',
+            province: 'ON' as ProvinceCode,
+            annualIncome: 45000,
+            unemploymentRate: 0.065,
+        };
+        const weeklyEarnings = Array(52).fill(scenario.annualIncome / 52);
+
+        it('should pay maternity then standard parental benefits at 55%', () => {
+            const maternity = getEiBenefits({
+                type: 'MATERNITY',
+                weeklyEarnings,
+                unemploymentRate: scenario.unemploymentRate,
+            });
+            const parental = getEiBenefits({
+                type: 'STANDARD_PARENTAL',
+                weeklyEarnings,
+                unemploymentRate: scenario.unemploymentRate,
+                waitingWeekServed: true,
+            });
+
+            expect(maternity.weeklyBenefit).toBeCloseTo((45000 / 52) * 0.55, 6);
+            expect(maternity.waitingWeeks + maternity.paidWeeks + parental.paidWeeks).toBe(51);
+            expect(maternity.total + parental.total).toBeGreaterThan(23000);
+        });
+
+        it('should pay a lower weekly benefit over more weeks with extended parental benefits', () => {
+            const standard = getEiBenefits({
+                type: 'STANDARD_PARENTAL',
+                weeklyEarnings,
+                unemploymentRate: scenario.unemploymentRate,
+                waitingWeekServed: true,
+            });
+            const extended = getEiBenefits({
+                type: 'EXTENDED_PARENTAL',
+                weeklyEarnings,
+                unemploymentRate: scenario.unemploymentRate,
+                waitingWeekServed: true,
+            });
+
+            expect(extended.weeklyBenefit).toBeLessThan(standard.weeklyBenefit);
+            expect(extended.paidWeeks).toBe(61);
+        });
+
+        it('should not repay special benefits', () => {
+            expect(getEiBenefitRepayment(scenario.annualIncome, 0)).toBe(0);
+        });
+    });
 });
\ No newline at end of file
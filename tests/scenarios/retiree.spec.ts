@@ -4,6 +4,7 @@ import {
 } from '../../src/taxes/income-tax';
 
 import { CPP } from '../../src/pension/canada-pension-plan';
+import { getGisBenefit, getGisIncomeFromNetIncome } from '../../src/pension/guaranteed-income-supplement';
 import { OAS } from '../../src/pension/old-age-security';
 import { ProvinceCode } from '../../src/misc/code-types';
 
@@ -126,4 +127,33 @@ describe('Tax Scenario Tests - Retiree', () => {
             expect(effectiveTaxRate).toBeLessThan(0.30);
         });
     });
-});
\ No newline at end of file
+
+    describe('Low-income retiree with the Guaranteed Income Supplement', () => {
+        const scenario = {
+            name: 'Louise Gagnon',
+            age: 67,
+            province: 'NB' as ProvinceCode,
+            oasPension: OAS.MONTHLY_PAYMENT_MAX * 12,
+            cppPension: 6000,
+            employmentIncome: 7000, // Part-time work
+        };
+        const netIncome = scenario.oasPension + scenario.cppPension + scenario.employmentIncome;
+
+        it('should exclude the OAS pension and part of the employment income', () => {
+            const gisIncome = getGisIncomeFromNetIncome(netIncome, scenario.oasPension, scenario.employmentIncome);
+
+            // $5,000 and half of the next $2,000 of the employment income are exempt
+            expect(gisIncome).toBeCloseTo(scenario.cppPension + 1000, 6);
+        });
+
+        it('should receive a partial GIS with the OAS pension', () => {
+            const gisIncome = getGisIncomeFromNetIncome(netIncome, scenario.oasPension, scenario.employmentIncome);
+            const gis = getGisBenefit('SINGLE', gisIncome);
+            const oasClawback = OAS.getRepayment(netIncome, scenario.oasPension);
+
+            expect(oasClawback).toBe(0);
+            expect(gis).toBeGreaterThan(5000);
+            expect(gis).toBeLessThan(getGisBenefit('SINGLE', 0));
+        });
+    });
+});